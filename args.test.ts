@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { validateHandoffArgs, validateReadSessionArgs } from "./args.ts";
+
+describe("validateHandoffArgs", () => {
+  it("accepts a full set of arguments", () => {
+    const result = validateHandoffArgs({
+      summary: "Refactored auth.",
+      next_steps: ["Write tests"],
+      key_decisions: ["Use ESM", { decision: "Keep zod", reason: "Already a dependency" }],
+      tried_failed: [{ approach: "Global mocks", why_failed: "Leaked between tests" }],
+      reference_files: ["src/auth.ts"],
+      user_prefs: ["No default exports"],
+    });
+    expect(result.ok).toBe(true);
+  });
+
+  it("allows the summary to be omitted so a fallback can be generated", () => {
+    expect(validateHandoffArgs({})).toEqual({ ok: true, args: {} });
+    expect(validateHandoffArgs({ summary: "   " })).toEqual({ ok: true, args: { summary: "" } });
+  });
+
+  it("explains how to pass list arguments given as strings", () => {
+    const result = validateHandoffArgs({ summary: "Done.", next_steps: "Fix tests" });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain("Error: invalid session_handoff arguments:");
+    expect(result.error).toContain("- next_steps:");
+    expect(result.error).toContain("pass a JSON array");
+  });
+
+  it("reports every invalid field", () => {
+    const result = validateHandoffArgs({ summary: "Done.", key_decisions: [1], blocked: 2 });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain(
+      "- key_decisions.0: expected a string or a { decision, reason }",
+    );
+    expect(result.error).toContain("- blocked:");
+  });
+});
+
+describe("validateReadSessionArgs", () => {
+  it("rejects out-of-range paging", () => {
+    const result = validateReadSessionArgs({ limit: 0, offset: -1 });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain("- limit:");
+    expect(result.error).toContain("- offset:");
+  });
+
+  it("accepts empty arguments", () => {
+    expect(validateReadSessionArgs({})).toEqual({ ok: true, args: {} });
+  });
+});
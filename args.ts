@@ -0,0 +1,320 @@
+import { tool } from "@opencode-ai/plugin";
+import { NAVIGATE_ACTIONS } from "./navigate.ts";
+
+const s = tool.schema;
+
+const stringList = (description: string) => s.array(s.string()).optional().describe(description);
+
+/** The handoff content; `handoff_confirm` accepts the same fields as overrides. */
+const handoffContentShape = {
+  summary: s
+    .string()
+    .trim()
+    .optional()
+    .describe(
+      "1-3 sentence summary of current state. If omitted, one is generated from the session.",
+    ),
+  goal: s
+    .string()
+    .optional()
+    .describe(
+      'What the user wants to accomplish next. If the user said "handoff <something>", this is the <something>.',
+    ),
+  next_steps: stringList("Remaining tasks, in order"),
+  blocked: s.string().optional().describe("Current blocker, if any"),
+  key_decisions: s
+    .array(
+      s.union(
+        [
+          s.string(),
+          s.object({
+            decision: s.string(),
+            reason: s.string().optional(),
+          }),
+        ],
+        { error: "expected a string or a { decision, reason } object" },
+      ),
+    )
+    .optional()
+    .describe("Important decisions made, as plain strings or { decision, reason } objects"),
+  files_modified: stringList("Key files changed"),
+  reference_files: stringList("Key files read for context but not changed"),
+  tried_failed: s
+    .array(
+      s.object({
+        approach: s.string(),
+        why_failed: s.string(),
+      }),
+    )
+    .optional()
+    .describe(
+      "Approaches already tried that did not work, and why, so the next session does not retry them",
+    ),
+  user_prefs: stringList(
+    "Preferences the user stated that the next session should respect. Preferences from earlier handoffs in the chain are kept automatically",
+  ),
+};
+
+export const handoffArgsShape = {
+  ...handoffContentShape,
+  dry_run: s
+    .boolean()
+    .optional()
+    .describe(
+      "Preview only: return the prompt, title, agent and model without creating a session. Send it later with handoff_confirm.",
+    ),
+  agent: s
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe(
+      "Agent for the new session, e.g. build to implement a plan made with plan. Defaults to the current agent",
+    ),
+  model: s
+    .string()
+    .trim()
+    .regex(/^[^/\s]+\/\S+$/, "expected provider/model")
+    .optional()
+    .describe(
+      'Model for the new session as "provider/model", e.g. a cheaper one for mechanical follow-up. Defaults to the current model',
+    ),
+  into: s
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe(
+      'Existing session to hand off into instead of creating one, e.g. a long-lived "main" session: its ID, or text matched against session titles',
+    ),
+  fork: s
+    .boolean()
+    .optional()
+    .describe(
+      "Create the new session as a child of the current one, so it appears under it in opencode's session tree",
+    ),
+  navigate: s
+    .enum(NAVIGATE_ACTIONS)
+    .optional()
+    .describe(
+      'What to do in the TUI afterwards: "picker", "switch" to the new session, "toast" with its ID, or "none". Leave unset unless the user asked',
+    ),
+  open_picker: s
+    .boolean()
+    .optional()
+    .describe(
+      'Shorthand for navigate: true is "picker", false is "none". Leave unset unless the user asked',
+    ),
+  export: s
+    .boolean()
+    .optional()
+    .describe(
+      "Also write the handoff to .opencode/handoffs/ as Markdown with a JSON sidecar, so it can be committed or picked up elsewhere",
+    ),
+};
+
+export const handoffExportArgsShape = handoffContentShape;
+
+export const handoffImportArgsShape = {
+  file: s
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      "Exported handoff to start from: a .md or .json path inside the project, or a file name in .opencode/handoffs/",
+    ),
+};
+
+export const handoffConfirmArgsShape = {
+  preview_id: s.string().min(1).describe("ID returned by a session_handoff dry run"),
+  prompt: s
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("Full edited prompt to send instead of the previewed one"),
+  ...handoffContentShape,
+};
+
+export const readSessionArgsShape = {
+  session_id: s
+    .string()
+    .optional()
+    .describe("Session to read. Defaults to the session this one was handed off from."),
+  hops: s
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "When session_id is omitted, how many handoffs to walk back from the current session (default 1)",
+    ),
+  offset: s
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Number of most recent messages to skip (default 0)"),
+  limit: s
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Maximum number of messages to return (default 20)"),
+  roles: s
+    .array(s.enum(["user", "assistant"]))
+    .optional()
+    .describe("Only include messages from these roles"),
+  part_types: s
+    .array(s.enum(["text", "reasoning", "tool", "file", "patch"]))
+    .optional()
+    .describe(
+      'Message part types to include (default ["text"]). Add "tool" to see tool calls with their key input, output and errors',
+    ),
+  max_part_chars: s
+    .number()
+    .int()
+    .min(50)
+    .max(20000)
+    .optional()
+    .describe(
+      "Characters kept per part, overriding the configured caps for text, reasoning and tool output",
+    ),
+};
+
+export const searchSessionArgsShape = {
+  query: s.string().min(1).describe("Text to look for, or a regular expression with `regex`"),
+  regex: s.boolean().optional().describe("Treat query as a JavaScript regular expression"),
+  case_sensitive: s.boolean().optional().describe("Match case exactly (default false)"),
+  session_id: s
+    .string()
+    .optional()
+    .describe("Session to search. Defaults to the session this one was handed off from."),
+  chain: s
+    .boolean()
+    .optional()
+    .describe("When session_id is omitted, search every session back along the handoff chain"),
+  roles: readSessionArgsShape.roles,
+  part_types: s
+    .array(s.enum(["text", "reasoning", "tool", "file", "patch"]))
+    .optional()
+    .describe('Message part types to search (default ["text"]). Add "tool" to search tool output'),
+  context: s
+    .number()
+    .int()
+    .min(0)
+    .max(500)
+    .optional()
+    .describe("Characters shown either side of each match (default 80)"),
+  limit: s
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Maximum number of matches to return (default 20)"),
+};
+
+export const handoffStatsArgsShape = {
+  all_projects: s
+    .boolean()
+    .optional()
+    .describe("Report on handoffs from every project instead of only this one"),
+  days: s
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Only count handoffs from the last N days (default: all recorded)"),
+};
+
+export const handoffHistoryArgsShape = {
+  session_id: s
+    .string()
+    .optional()
+    .describe("Session whose handoff chain to show. Defaults to the current session."),
+};
+
+const handoffArgsSchema = s.object(handoffArgsShape);
+const readSessionArgsSchema = s.object(readSessionArgsShape);
+const searchSessionArgsSchema = s.object(searchSessionArgsShape);
+const handoffHistoryArgsSchema = s.object(handoffHistoryArgsShape);
+const handoffStatsArgsSchema = s.object(handoffStatsArgsShape);
+const handoffConfirmArgsSchema = s.object(handoffConfirmArgsShape);
+const handoffExportArgsSchema = s.object(handoffExportArgsShape);
+const handoffImportArgsSchema = s.object(handoffImportArgsShape);
+
+export type HandoffToolArgs = ReturnType<typeof handoffArgsSchema.parse>;
+export type ReadSessionToolArgs = ReturnType<typeof readSessionArgsSchema.parse>;
+export type SearchSessionToolArgs = ReturnType<typeof searchSessionArgsSchema.parse>;
+export type HandoffHistoryToolArgs = ReturnType<typeof handoffHistoryArgsSchema.parse>;
+export type HandoffStatsToolArgs = ReturnType<typeof handoffStatsArgsSchema.parse>;
+export type HandoffConfirmToolArgs = ReturnType<typeof handoffConfirmArgsSchema.parse>;
+export type HandoffExportToolArgs = ReturnType<typeof handoffExportArgsSchema.parse>;
+export type HandoffImportToolArgs = ReturnType<typeof handoffImportArgsSchema.parse>;
+
+interface Issue {
+  path: PropertyKey[];
+  message: string;
+  code: string;
+  expected?: unknown;
+}
+
+function formatIssue(issue: Issue): string {
+  const field = issue.path.map(String).join(".") || "arguments";
+  const hint =
+    issue.code === "invalid_type" && issue.expected === "array"
+      ? ' (pass a JSON array, e.g. ["first", "second"])'
+      : "";
+  return `- ${field}: ${issue.message}${hint}`;
+}
+
+type Validated<T> = { ok: true; args: T } | { ok: false; error: string };
+
+function validate<T>(
+  schema: {
+    safeParse(
+      input: unknown,
+    ): { success: true; data: T } | { success: false; error: { issues: Issue[] } };
+  },
+  toolName: string,
+  input: unknown,
+): Validated<T> {
+  const result = schema.safeParse(input);
+  if (result.success) return { ok: true, args: result.data };
+  const lines = result.error.issues.map(formatIssue);
+  return { ok: false, error: `Error: invalid ${toolName} arguments:\n${lines.join("\n")}` };
+}
+
+export function validateHandoffArgs(input: unknown): Validated<HandoffToolArgs> {
+  return validate(handoffArgsSchema, "session_handoff", input);
+}
+
+export function validateReadSessionArgs(input: unknown): Validated<ReadSessionToolArgs> {
+  return validate(readSessionArgsSchema, "read_session", input);
+}
+
+export function validateSearchSessionArgs(input: unknown): Validated<SearchSessionToolArgs> {
+  return validate(searchSessionArgsSchema, "search_session", input);
+}
+
+export function validateHandoffHistoryArgs(input: unknown): Validated<HandoffHistoryToolArgs> {
+  return validate(handoffHistoryArgsSchema, "handoff_history", input);
+}
+
+export function validateHandoffStatsArgs(input: unknown): Validated<HandoffStatsToolArgs> {
+  return validate(handoffStatsArgsSchema, "handoff_stats", input);
+}
+
+export function validateHandoffConfirmArgs(input: unknown): Validated<HandoffConfirmToolArgs> {
+  return validate(handoffConfirmArgsSchema, "handoff_confirm", input);
+}
+
+export function validateHandoffExportArgs(input: unknown): Validated<HandoffExportToolArgs> {
+  return validate(handoffExportArgsSchema, "handoff_export", input);
+}
+
+export function validateHandoffImportArgs(input: unknown): Validated<HandoffImportToolArgs> {
+  return validate(handoffImportArgsSchema, "handoff_import", input);
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { restoreFiles, snapshotFiles, writeFileAtomic } from "./atomic-file.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-atomic-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("atomic file writes", () => {
+  it("keeps the previous content in a .bak file", () => {
+    const file = path.join(dir, "config.json");
+    fs.writeFileSync(file, "old");
+    writeFileAtomic(file, "new");
+    expect(fs.readFileSync(file, "utf-8")).toBe("new");
+    expect(fs.readFileSync(`${file}.bak`, "utf-8")).toBe("old");
+    expect(fs.readdirSync(dir).sort()).toEqual(["config.json", "config.json.bak"]);
+  });
+
+  it("restores a snapshot, removing files that did not exist", () => {
+    const existing = path.join(dir, "package.json");
+    const created = path.join(dir, "bun.lock");
+    fs.writeFileSync(existing, "before");
+    const snapshot = snapshotFiles([existing, created]);
+    fs.writeFileSync(existing, "after");
+    fs.writeFileSync(created, "lock");
+    expect(restoreFiles(snapshot)).toBe(true);
+    expect(fs.readFileSync(existing, "utf-8")).toBe("before");
+    expect(fs.existsSync(created)).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import * as fs from "fs";
+
+/** File contents keyed by path; null for files that did not exist. */
+export type FileSnapshot = Map<string, string | null>;
+
+function replaceFile(file: string, content: string): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, content, "utf-8");
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Writes through a temp file and a rename, so readers never see a half-written
+ * file. The previous content is kept in `<file>.bak`.
+ */
+export function writeFileAtomic(file: string, content: string): void {
+  if (fs.existsSync(file)) fs.copyFileSync(file, `${file}.bak`);
+  replaceFile(file, content);
+}
+
+export function snapshotFiles(files: string[]): FileSnapshot {
+  return new Map(files.map((f) => [f, fs.existsSync(f) ? fs.readFileSync(f, "utf-8") : null]));
+}
+
+/** Puts every file back as it was in `snapshot`, deleting ones that did not exist. */
+export function restoreFiles(snapshot: FileSnapshot): boolean {
+  let restored = true;
+  for (const [file, content] of snapshot) {
+    try {
+      if (content === null) fs.rmSync(file, { force: true });
+      else replaceFile(file, content);
+    } catch {
+      restored = false;
+    }
+  }
+  return restored;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  compareVersions,
+  decideUpdate,
+  pinPluginVersion,
+  shouldPinVersion,
+} from "./auto-update.ts";
+
+describe("compareVersions", () => {
+  it("orders by semver precedence rather than string equality", () => {
+    expect(compareVersions("1.10.0", "1.9.3")).toBe(1);
+    expect(compareVersions("1.2.3", "1.2.3")).toBe(0);
+    expect(compareVersions("v2.0.0", "2.0.1")).toBe(-1);
+  });
+
+  it("ranks prereleases below the release and by their identifiers", () => {
+    expect(compareVersions("2.0.0-next.1", "2.0.0")).toBe(-1);
+    expect(compareVersions("2.0.0-next.10", "2.0.0-next.9")).toBe(1);
+    expect(compareVersions("2.0.0-alpha", "2.0.0-alpha.1")).toBe(-1);
+  });
+
+  it("returns null for invalid versions", () => {
+    expect(compareVersions("latest", "1.0.0")).toBeNull();
+  });
+});
+
+describe("decideUpdate", () => {
+  it("does nothing when the registry version is not newer", () => {
+    expect(decideUpdate("1.3.0", "1.2.9", "auto-install")).toBe("none");
+    expect(decideUpdate("1.3.0", "1.3.0", "auto-install")).toBe("none");
+  });
+
+  it("follows the policy", () => {
+    expect(decideUpdate("1.2.0", "1.3.0", "off")).toBe("none");
+    expect(decideUpdate("1.2.0", "1.2.1", "notify-only")).toBe("notify");
+    expect(decideUpdate("1.2.0", "1.2.1", "auto-install-patch-only")).toBe("install");
+    expect(decideUpdate("1.2.0", "1.3.0", "auto-install-patch-only")).toBe("notify");
+    expect(decideUpdate("1.2.0", "2.0.0", "auto-install")).toBe("install");
+  });
+});
+
+describe("pinning the plugin entry", () => {
+  it("pins unpinned entries only when following a channel other than latest", () => {
+    expect(shouldPinVersion(false, "latest")).toBe(false);
+    expect(shouldPinVersion(false, "next")).toBe(true);
+    expect(shouldPinVersion(true, "latest")).toBe(true);
+  });
+
+  it("rewrites an unpinned entry to the channel's version", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-pin-"));
+    const configPath = path.join(dir, "opencode.jsonc");
+    fs.writeFileSync(configPath, '{\n  // plugins\n  "plugin": ["opencode-session-handoff"]\n}\n');
+    expect(pinPluginVersion(configPath, "opencode-session-handoff", "2.0.0-next.1")).toBe(true);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(
+      '{\n  // plugins\n  "plugin": ["opencode-session-handoff@2.0.0-next.1"]\n}\n',
+    );
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -2,28 +2,52 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import type { PluginInput } from "@opencode-ai/plugin";
+import { restoreFiles, snapshotFiles, writeFileAtomic, type FileSnapshot } from "./atomic-file.ts";
+import {
+  findNode,
+  parseJsonc,
+  parseJsoncTree,
+  removeJsoncProperty,
+  setJsoncValue,
+} from "./jsonc.ts";
 
 const PACKAGE_NAME = "opencode-session-handoff";
-const NPM_REGISTRY_URL = `https://registry.npmjs.org/-/package/${PACKAGE_NAME}/dist-tags`;
 const NPM_FETCH_TIMEOUT = 5000;
 const BUN_INSTALL_TIMEOUT_MS = 60000;
 
 type PluginClient = PluginInput["client"];
 
+export type UpdatePolicy = "off" | "notify-only" | "auto-install-patch-only" | "auto-install";
+
+export interface AutoUpdateOptions {
+  policy: UpdatePolicy;
+  /** npm dist-tag to follow, e.g. `latest` or `next`. */
+  channel: string;
+  /** Registry base URL, for mirrors. */
+  registry: string;
+}
+
+export const DEFAULT_AUTO_UPDATE: AutoUpdateOptions = {
+  policy: "auto-install",
+  channel: "latest",
+  registry: "https://registry.npmjs.org",
+};
+
 interface UpdateContext {
   directory: string;
   client: PluginClient;
+  options: AutoUpdateOptions;
 }
 
-function getConfigDir(): string {
+export function getConfigDir(): string {
   return path.join(os.homedir(), ".config", "opencode");
 }
 
-function getConfigPath(): string {
-  const configDir = getConfigDir();
-  const jsoncPath = path.join(configDir, "opencode.jsonc");
+/** Prefers `<name>.jsonc` when it exists, otherwise `<name>.json` (which may not exist). */
+export function getConfigPath(name = "opencode", configDir = getConfigDir()): string {
+  const jsoncPath = path.join(configDir, `${name}.jsonc`);
   if (fs.existsSync(jsoncPath)) return jsoncPath;
-  return path.join(configDir, "opencode.json");
+  return path.join(configDir, `${name}.json`);
 }
 
 function getCurrentVersion(): string | null {
@@ -47,17 +71,82 @@ function getCurrentVersion(): string | null {
   return null;
 }
 
-async function getLatestVersion(): Promise<string | null> {
+interface Version {
+  core: [number, number, number];
+  prerelease: string[];
+}
+
+function parseVersion(version: string): Version | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+.*)?$/);
+  if (!match) return null;
+  return {
+    core: [Number(match[1]), Number(match[2]), Number(match[3])],
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const numA = /^\d+$/.test(a);
+  const numB = /^\d+$/.test(b);
+  if (numA && numB) return Number(a) - Number(b);
+  if (numA !== numB) return numA ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const diff = compareIdentifiers(a[i] ?? "", b[i] ?? "");
+    if (diff !== 0) return diff;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Semver precedence: negative when `a` is older than `b`, positive when newer,
+ * 0 when equal. Returns null if either is not a valid version.
+ */
+export function compareVersions(a: string, b: string): number | null {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) return null;
+  for (let i = 0; i < 3; i++) {
+    const diff = (va.core[i] ?? 0) - (vb.core[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return Math.sign(comparePrerelease(va.prerelease, vb.prerelease));
+}
+
+function isPatchUpdate(current: string, latest: string): boolean {
+  const vc = parseVersion(current);
+  const vl = parseVersion(latest);
+  return !!vc && !!vl && vc.core[0] === vl.core[0] && vc.core[1] === vl.core[1];
+}
+
+/** What to do about `latest` under `policy`: nothing, a toast, or an install. */
+export function decideUpdate(
+  current: string,
+  latest: string,
+  policy: UpdatePolicy,
+): "none" | "notify" | "install" {
+  if (policy === "off" || (compareVersions(latest, current) ?? 0) <= 0) return "none";
+  if (policy === "notify-only") return "notify";
+  if (policy === "auto-install-patch-only" && !isPatchUpdate(current, latest)) return "notify";
+  return "install";
+}
+
+async function getLatestVersion(options: AutoUpdateOptions): Promise<string | null> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), NPM_FETCH_TIMEOUT);
+  const url = `${options.registry.replace(/\/+$/, "")}/-/package/${PACKAGE_NAME}/dist-tags`;
   try {
-    const response = await fetch(NPM_REGISTRY_URL, {
+    const response = await fetch(url, {
       signal: controller.signal,
       headers: { Accept: "application/json" },
     });
     if (!response.ok) return null;
-    const data = (await response.json()) as { latest?: string };
-    return data.latest ?? null;
+    const data = (await response.json()) as Record<string, string | undefined>;
+    return data[options.channel] ?? null;
   } catch {
     return null;
   } finally {
@@ -77,80 +166,64 @@ function findPluginEntry(): PluginEntryInfo | null {
   if (!fs.existsSync(configPath)) return null;
 
   try {
-    const content = fs.readFileSync(configPath, "utf-8");
-    const pinnedPattern = new RegExp(`["']${PACKAGE_NAME}@([^"']+)["']`);
-    const unpinnedPattern = new RegExp(`["']${PACKAGE_NAME}["']`);
-
-    const pinnedMatch = content.match(pinnedPattern);
-    if (pinnedMatch) {
-      return {
-        entry: pinnedMatch[0].slice(1, -1),
-        isPinned: true,
-        pinnedVersion: pinnedMatch[1],
-        configPath,
-      };
-    }
-
-    const unpinnedMatch = content.match(unpinnedPattern);
-    if (unpinnedMatch) {
-      return {
-        entry: unpinnedMatch[0].slice(1, -1),
-        isPinned: false,
-        pinnedVersion: null,
-        configPath,
-      };
-    }
+    const config = parseJsonc(fs.readFileSync(configPath, "utf-8")) as { plugin?: unknown };
+    const plugins: unknown[] = Array.isArray(config?.plugin) ? config.plugin : [];
+    const entry = plugins.find(
+      (p): p is string =>
+        typeof p === "string" && (p === PACKAGE_NAME || p.startsWith(`${PACKAGE_NAME}@`)),
+    );
+    if (!entry) return null;
+    const pinnedVersion = entry === PACKAGE_NAME ? null : entry.slice(PACKAGE_NAME.length + 1);
+    return { entry, isPinned: pinnedVersion !== null, pinnedVersion, configPath };
   } catch {
     return null;
   }
-  return null;
 }
 
-function updatePinnedVersion(configPath: string, oldEntry: string, newVersion: string): boolean {
+/**
+ * Whether the install must pin the entry to the new version. An unpinned entry
+ * makes opencode install the `latest` dist-tag, so any other channel's version
+ * only sticks once pinned.
+ */
+export function shouldPinVersion(isPinned: boolean, channel: string): boolean {
+  return isPinned || channel !== "latest";
+}
+
+/** Rewrites the plugin entry `oldEntry`, pinned or not, to `opencode-session-handoff@<newVersion>`. */
+export function pinPluginVersion(
+  configPath: string,
+  oldEntry: string,
+  newVersion: string,
+): boolean {
   try {
     const content = fs.readFileSync(configPath, "utf-8");
-    const newEntry = `${PACKAGE_NAME}@${newVersion}`;
-
-    const pluginMatch = content.match(/"plugin"\s*:\s*\[/);
-    if (!pluginMatch || pluginMatch.index === undefined) return false;
-
-    const startIdx = pluginMatch.index + pluginMatch[0].length;
-    let bracketCount = 1;
-    let endIdx = startIdx;
-    for (let i = startIdx; i < content.length && bracketCount > 0; i++) {
-      if (content[i] === "[") bracketCount++;
-      else if (content[i] === "]") bracketCount--;
-      endIdx = i;
-    }
-
-    const before = content.slice(0, startIdx);
-    const pluginArrayContent = content.slice(startIdx, endIdx);
-    const after = content.slice(endIdx);
-
-    const escapedOldEntry = oldEntry.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    const regex = new RegExp(`["']${escapedOldEntry}["']`);
-
-    if (!regex.test(pluginArrayContent)) return false;
+    const plugins = findNode(parseJsoncTree(content), ["plugin"]);
+    if (plugins?.type !== "array") return false;
+    const index = plugins.items.findIndex((i) => i.type === "value" && i.value === oldEntry);
+    if (index === -1) return false;
 
-    const updatedPluginArray = pluginArrayContent.replace(regex, `"${newEntry}"`);
-    const updatedContent = before + updatedPluginArray + after;
+    const updated = setJsoncValue(content, ["plugin", index], `${PACKAGE_NAME}@${newVersion}`);
+    if (!updated || updated === content) return false;
 
-    if (updatedContent === content) return false;
-
-    fs.writeFileSync(configPath, updatedContent, "utf-8");
+    writeFileAtomic(configPath, updated);
     return true;
   } catch {
     return false;
   }
 }
 
-function removePackageDir(configDir: string): boolean {
-  const pkgDir = path.join(configDir, "node_modules", PACKAGE_NAME);
-  if (fs.existsSync(pkgDir)) {
-    fs.rmSync(pkgDir, { recursive: true, force: true });
-    return true;
-  }
-  return false;
+function packageDir(configDir: string): string {
+  return path.join(configDir, "node_modules", PACKAGE_NAME);
+}
+
+/** Moves the installed package aside rather than deleting it, so a failed install can be undone. */
+function stashPackageDir(configDir: string): string | null {
+  const pkgDir = packageDir(configDir);
+  if (!fs.existsSync(pkgDir)) return null;
+  const stash = `${pkgDir}.bak`;
+  fs.rmSync(stash, { recursive: true, force: true });
+  fs.renameSync(pkgDir, stash);
+  return stash;
 }
 
 function removeFromPackageJson(configDir: string): boolean {
@@ -158,50 +231,31 @@ function removeFromPackageJson(configDir: string): boolean {
   if (!fs.existsSync(pkgJsonPath)) return false;
 
   const content = fs.readFileSync(pkgJsonPath, "utf-8");
-  const pkgJson = JSON.parse(content);
-  if (pkgJson.dependencies?.[PACKAGE_NAME]) {
-    delete pkgJson.dependencies[PACKAGE_NAME];
-    fs.writeFileSync(pkgJsonPath, JSON.stringify(pkgJson, null, 2));
-    return true;
-  }
-  return false;
+  const updated = removeJsoncProperty(content, ["dependencies", PACKAGE_NAME]);
+  if (updated === null) return false;
+  writeFileAtomic(pkgJsonPath, updated);
+  return true;
 }
 
 function removeFromBunLock(configDir: string): boolean {
   const lockPath = path.join(configDir, "bun.lock");
   if (!fs.existsSync(lockPath)) return false;
 
-  const content = fs.readFileSync(lockPath, "utf-8");
-  const cleanedContent = content.replace(/,(\s*[}\]])/g, "$1");
-  const lock = JSON.parse(cleanedContent);
+  let content = fs.readFileSync(lockPath, "utf-8");
   let modified = false;
-
-  if (lock.workspaces?.[""]?.dependencies?.[PACKAGE_NAME]) {
-    delete lock.workspaces[""].dependencies[PACKAGE_NAME];
-    modified = true;
-  }
-  if (lock.packages?.[PACKAGE_NAME]) {
-    delete lock.packages[PACKAGE_NAME];
+  for (const keyPath of [
+    ["workspaces", "", "dependencies", PACKAGE_NAME],
+    ["packages", PACKAGE_NAME],
+  ]) {
+    const updated = removeJsoncProperty(content, keyPath);
+    if (updated === null) continue;
+    content = updated;
     modified = true;
   }
-  if (modified) {
-    fs.writeFileSync(lockPath, JSON.stringify(lock, null, 2));
-  }
+  if (modified) writeFileAtomic(lockPath, content);
   return modified;
 }
 
-function invalidatePackage(): boolean {
-  const configDir = getConfigDir();
-  try {
-    removePackageDir(configDir);
-    removeFromPackageJson(configDir);
-    removeFromBunLock(configDir);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 async function runBunInstall(): Promise<boolean> {
   try {
     const proc = Bun.spawn(["bun", "install"], {
@@ -244,33 +298,80 @@ async function runUpdateCheck(ctx: UpdateContext): Promise<void> {
   const currentVersion = getCurrentVersion();
   if (!currentVersion) return;
 
-  const latestVersion = await getLatestVersion();
+  const latestVersion = await getLatestVersion(ctx.options);
   if (!latestVersion) return;
 
-  if (currentVersion === latestVersion) return;
+  const action = decideUpdate(currentVersion, latestVersion, ctx.options.policy);
+  if (action === "none") return;
+  if (action === "notify") {
+    await showToast(
+      ctx.client,
+      `session-handoff v${latestVersion} available (current v${currentVersion}).`,
+    );
+    return;
+  }
 
   const pluginInfo = findPluginEntry();
   if (!pluginInfo) return;
 
-  if (pluginInfo.isPinned) {
-    const updated = updatePinnedVersion(pluginInfo.configPath, pluginInfo.entry, latestVersion);
-    if (!updated) {
-      await showToast(ctx.client, `session-handoff v${latestVersion} available. Update manually.`);
-      return;
-    }
+  const outcome = await installUpdate(pluginInfo, latestVersion, ctx.options.channel);
+  const messages = {
+    manual: `session-handoff v${latestVersion} available. Update manually.`,
+    installed: `session-handoff updated: v${currentVersion} → v${latestVersion}. Restart to apply.`,
+    "rolled-back": `session-handoff update to v${latestVersion} failed; restored v${currentVersion}.`,
+  };
+  await showToast(ctx.client, messages[outcome]);
+}
+
+function rollbackUpdate(configDir: string, snapshot: FileSnapshot, stash: string | null): void {
+  restoreFiles(snapshot);
+  if (!stash || !fs.existsSync(stash)) return;
+  try {
+    fs.rmSync(packageDir(configDir), { recursive: true, force: true });
+    fs.renameSync(stash, packageDir(configDir));
+  } catch {
+    return;
   }
+}
 
-  invalidatePackage();
-  const success = await runBunInstall();
+/**
+ * Bumps a pinned entry, or pins one following a channel other than `latest`,
+ * drops the cached package and reinstalls. If anything
+ * fails, including `bun install` failing or timing out, the config,
+ * package.json, bun.lock and the previous package are put back.
+ */
+async function installUpdate(
+  pluginInfo: PluginEntryInfo,
+  latestVersion: string,
+  channel: string,
+): Promise<"manual" | "installed" | "rolled-back"> {
+  const configDir = getConfigDir();
+  const snapshot = snapshotFiles([
+    pluginInfo.configPath,
+    path.join(configDir, "package.json"),
+    path.join(configDir, "bun.lock"),
+  ]);
+  if (
+    shouldPinVersion(pluginInfo.isPinned, channel) &&
+    !pinPluginVersion(pluginInfo.configPath, pluginInfo.entry, latestVersion)
+  ) {
+    return "manual";
+  }
 
-  if (success) {
-    await showToast(
-      ctx.client,
-      `session-handoff updated: v${currentVersion} → v${latestVersion}. Restart to apply.`,
-    );
-  } else {
-    await showToast(ctx.client, `session-handoff v${latestVersion} available. Restart to apply.`);
+  let stash: string | null = null;
+  try {
+    stash = stashPackageDir(configDir);
+    removeFromPackageJson(configDir);
+    removeFromBunLock(configDir);
+    if (await runBunInstall()) {
+      if (stash) fs.rmSync(stash, { recursive: true, force: true });
+      return "installed";
+    }
+  } catch {
+    // Fall through to the rollback.
   }
+  rollbackUpdate(configDir, snapshot, stash);
+  return "rolled-back";
 }
 
 export function createAutoUpdateHook(ctx: UpdateContext) {
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import type { Config, Part } from "@opencode-ai/sdk";
+import { createHandoffCommandHook, matchHandoffMessage, parseHandoffCommand } from "./command.ts";
+
+function textPart(text: string): Part {
+  return { id: "prt_1", sessionID: "ses_1", messageID: "msg_1", type: "text", text };
+}
+
+describe("parseHandoffCommand", () => {
+  it("takes flags anywhere and the rest as the goal", () => {
+    expect(
+      parseHandoffCommand(
+        'fix the --dry-run failing tests --agent build --into "Main work" --no-picker',
+      ),
+    ).toEqual({
+      ok: true,
+      args: {
+        goal: "fix the failing tests",
+        dry_run: true,
+        agent: "build",
+        into: "Main work",
+        open_picker: false,
+      },
+    });
+  });
+
+  it("accepts --flag=value", () => {
+    expect(parseHandoffCommand("--model=anthropic/sonnet")).toEqual({
+      ok: true,
+      args: { model: "anthropic/sonnet" },
+    });
+  });
+
+  it("reports unknown flags and missing values with the usage", () => {
+    const unknown = parseHandoffCommand("--fast");
+    expect(unknown.ok === false && unknown.error).toMatch(
+      /^unknown option --fast\. Usage: \/handoff/,
+    );
+    const missing = parseHandoffCommand("goal --agent");
+    expect(missing.ok === false && missing.error).toMatch(/^--agent needs a value/);
+  });
+
+  it("checks --navigate against the known actions", () => {
+    expect(parseHandoffCommand("--navigate switch")).toEqual({
+      ok: true,
+      args: { navigate: "switch" },
+    });
+    const invalid = parseHandoffCommand("--navigate=jump");
+    expect(invalid.ok === false && invalid.error).toMatch(
+      /^--navigate must be one of picker, switch, toast, none\./,
+    );
+  });
+});
+
+describe("matchHandoffMessage", () => {
+  it("matches the command template and, when enabled, the keyword", () => {
+    expect(matchHandoffMessage("[session-handoff] ship it", false)).toBe("ship it");
+    expect(matchHandoffMessage("handoff ship it", false)).toBeNull();
+    expect(matchHandoffMessage("Handoff ship it", true)).toBe("ship it");
+    expect(matchHandoffMessage("handoff", true)).toBe("");
+    expect(matchHandoffMessage("handoffs are great", true)).toBeNull();
+  });
+});
+
+describe("createHandoffCommandHook", () => {
+  it("registers /handoff without replacing a user-defined command", async () => {
+    const hook = createHandoffCommandHook({ enabled: true, keyword: false });
+    const config: Config = {};
+    await hook.config(config);
+    expect(config.command?.handoff?.template).toBe("[session-handoff] $ARGUMENTS");
+    const custom: Config = { command: { handoff: { template: "mine" } } };
+    await hook.config(custom);
+    expect(custom.command?.handoff?.template).toBe("mine");
+  });
+
+  it("rewrites the message and forces the parsed arguments onto the next handoff", async () => {
+    const hook = createHandoffCommandHook({ enabled: true, keyword: false });
+    const parts = [textPart("[session-handoff] add tests --dry-run")];
+    await hook.chatMessage("ses_1", parts);
+    const part = parts[0];
+    expect(part?.type === "text" && part.text).toContain("Call `session_handoff` now");
+
+    const args: Record<string, unknown> = { summary: "Done.", goal: "something else" };
+    hook.toolBefore("read_session", "ses_1", args);
+    expect(args.goal).toBe("something else");
+    hook.toolBefore("session_handoff", "ses_1", args);
+    expect(args).toEqual({ summary: "Done.", goal: "add tests", dry_run: true });
+
+    const again: Record<string, unknown> = {};
+    hook.toolBefore("session_handoff", "ses_1", again);
+    expect(again).toEqual({});
+  });
+
+  it("leaves other messages alone", async () => {
+    const hook = createHandoffCommandHook({ enabled: true, keyword: false });
+    const parts = [textPart("handoff please")];
+    await hook.chatMessage("ses_1", parts);
+    expect(parts).toEqual([textPart("handoff please")]);
+  });
+});
@@ -0,0 +1,182 @@
+import type { Config, Part } from "@opencode-ai/sdk";
+import type { HandoffToolArgs } from "./args.ts";
+import { isNavigateAction, NAVIGATE_ACTIONS } from "./navigate.ts";
+
+/** Prefix of the message the `/handoff` command template expands to. */
+const COMMAND_MARKER = "[session-handoff]";
+
+const KEYWORD_PATTERN = /^handoff(?:\s+([\s\S]*))?$/i;
+
+export interface HandoffCommandOptions {
+  /** Register the `/handoff` command. */
+  enabled: boolean;
+  /** Also treat chat messages starting with "handoff" as the command. */
+  keyword: boolean;
+}
+
+/** Arguments fixed by the command line; the model only fills in the content. */
+export type CommandArgs = Pick<
+  HandoffToolArgs,
+  "goal" | "dry_run" | "agent" | "model" | "into" | "fork" | "export" | "open_picker" | "navigate"
+>;
+
+export type ParsedCommand = { ok: true; args: CommandArgs } | { ok: false; error: string };
+
+export const COMMAND_USAGE =
+  "/handoff [goal] [--dry-run] [--agent <name>] [--model <provider/model>] [--into <session>] [--fork] [--export] [--no-picker] [--navigate picker|switch|toast|none]";
+
+const BOOLEAN_FLAGS: Record<string, Partial<CommandArgs>> = {
+  "--dry-run": { dry_run: true },
+  "--fork": { fork: true },
+  "--export": { export: true },
+  "--no-picker": { open_picker: false },
+  "--picker": { open_picker: true },
+};
+
+const VALUE_FLAGS: Record<string, "agent" | "model" | "into" | "navigate"> = {
+  "--agent": "agent",
+  "--model": "model",
+  "--into": "into",
+  "--navigate": "navigate",
+};
+
+/** Splits on whitespace, keeping "double quoted" text together. */
+function tokenize(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|(\S+)/g)].map((m) => m[1] ?? m[2] ?? "");
+}
+
+/** `--agent=build` → ["--agent", "build"]; anything else is returned whole. */
+function splitFlag(token: string): [string, string | undefined] {
+  const eq = token.indexOf("=");
+  if (!token.startsWith("--") || eq === -1) return [token, undefined];
+  return [token.slice(0, eq), token.slice(eq + 1)];
+}
+
+/** Stores a flag's value; returns an error for values the flag does not accept. */
+function setValue(
+  args: CommandArgs,
+  key: (typeof VALUE_FLAGS)[string],
+  value: string,
+): string | null {
+  if (key !== "navigate") {
+    args[key] = value;
+    return null;
+  }
+  if (!isNavigateAction(value)) return `--navigate must be one of ${NAVIGATE_ACTIONS.join(", ")}`;
+  args.navigate = value;
+  return null;
+}
+
+/** Reads one token into `args`; returns how many tokens it used, or an error. */
+function readToken(
+  tokens: string[],
+  i: number,
+  args: CommandArgs,
+  goal: string[],
+): number | string {
+  const token = tokens[i] ?? "";
+  const [flag, inline] = splitFlag(token);
+  const booleanFlag = BOOLEAN_FLAGS[flag];
+  if (booleanFlag) {
+    Object.assign(args, booleanFlag);
+    return 1;
+  }
+  const valueFlag = VALUE_FLAGS[flag];
+  if (!valueFlag) {
+    if (flag.startsWith("--")) return `unknown option ${flag}`;
+    goal.push(token);
+    return 1;
+  }
+  const value = inline ?? tokens[i + 1];
+  if (!value || value.startsWith("--")) return `${flag} needs a value`;
+  return setValue(args, valueFlag, value) ?? (inline === undefined ? 2 : 1);
+}
+
+/** Parses `/handoff` arguments: flags anywhere, everything else is the goal. */
+export function parseHandoffCommand(text: string): ParsedCommand {
+  const tokens = tokenize(text);
+  const args: CommandArgs = {};
+  const goal: string[] = [];
+  for (let i = 0; i < tokens.length; ) {
+    const used = readToken(tokens, i, args, goal);
+    if (typeof used === "string") return { ok: false, error: `${used}. Usage: ${COMMAND_USAGE}` };
+    i += used;
+  }
+  if (goal.length > 0) args.goal = goal.join(" ");
+  return { ok: true, args };
+}
+
+/** The command arguments in a handoff request message, or null when it is not one. */
+export function matchHandoffMessage(text: string, keyword: boolean): string | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith(COMMAND_MARKER)) return trimmed.slice(COMMAND_MARKER.length).trim();
+  if (!keyword) return null;
+  const match = KEYWORD_PATTERN.exec(trimmed);
+  return match ? (match[1] ?? "").trim() : null;
+}
+
+function describeArgs(args: CommandArgs): string {
+  return Object.entries(args)
+    .map(([key, value]) => `- ${key}: ${JSON.stringify(value)}`)
+    .join("\n");
+}
+
+export function commandInstruction(args: CommandArgs): string {
+  const fixed = describeArgs(args);
+  return [
+    "The user asked for a session handoff. Call `session_handoff` now and do no other work.",
+    "Fill in only the content from this conversation: summary, next_steps, blocked, key_decisions, files_modified, reference_files, tried_failed and user_prefs.",
+    ...(fixed ? ["These arguments are already set and will be applied as given:", fixed] : []),
+  ].join("\n");
+}
+
+function errorInstruction(error: string): string {
+  return `The user ran /handoff with invalid arguments. Do not call any tools; tell them: ${error}`;
+}
+
+function firstUserText(parts: Part[]): (Part & { type: "text" }) | undefined {
+  return parts.find((p): p is Part & { type: "text" } => p.type === "text" && !p.synthetic);
+}
+
+/**
+ * Deterministic entry points for a handoff. The `/handoff` command (and, if
+ * enabled, a message starting with "handoff") is parsed here, the message is
+ * replaced with an instruction to call `session_handoff`, and the parsed goal
+ * and flags are forced onto that call, so they do not depend on the model.
+ */
+export function createHandoffCommandHook(options: HandoffCommandOptions) {
+  const pending = new Map<string, CommandArgs>();
+
+  return {
+    config: async (config: Config): Promise<void> => {
+      if (!options.enabled) return;
+      config.command ??= {};
+      config.command.handoff ??= {
+        template: `${COMMAND_MARKER} $ARGUMENTS`,
+        description: "Hand off to a new session: [goal] [--dry-run] [--agent] [--no-picker] ...",
+      };
+    },
+
+    chatMessage: async (sessionID: string, parts: Part[]): Promise<void> => {
+      pending.delete(sessionID);
+      const part = firstUserText(parts);
+      const commandLine = part ? matchHandoffMessage(part.text, options.keyword) : null;
+      if (!part || commandLine === null) return;
+      const parsed = parseHandoffCommand(commandLine);
+      if (!parsed.ok) {
+        part.text = errorInstruction(parsed.error);
+        return;
+      }
+      pending.set(sessionID, parsed.args);
+      part.text = commandInstruction(parsed.args);
+    },
+
+    /** Applies the command's arguments to the next `session_handoff` call in the session. */
+    toolBefore: (tool: string, sessionID: string, args: Record<string, unknown>): void => {
+      const forced = pending.get(sessionID);
+      if (tool !== "session_handoff" || !forced) return;
+      pending.delete(sessionID);
+      Object.assign(args, forced);
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CONFIG, formatTitle, loadConfig, validateConfig } from "./config.ts";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-config-"));
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function writeConfig(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+describe("validateConfig", () => {
+  it("keeps valid options and reports bad or unknown ones", () => {
+    const result = validateConfig(
+      { openPicker: false, tokenBudget: -5, readSession: { limit: 500 }, colour: "blue" },
+      "test.json",
+    );
+    expect(result.values).toEqual({ openPicker: false });
+    expect(result.errors).toEqual([
+      expect.stringContaining("test.json: tokenBudget:"),
+      expect.stringContaining("test.json: readSession.limit:"),
+      'test.json: unknown option "colour"',
+    ]);
+  });
+
+  it("validates auto-update policy, channel and registry", () => {
+    const result = validateConfig(
+      { autoUpdate: { policy: "sometimes", channel: "next", registry: "ftp://mirror" } },
+      "x",
+    );
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual([
+      expect.stringContaining("x: autoUpdate.policy:"),
+      expect.stringContaining("x: autoUpdate.registry:"),
+    ]);
+  });
+
+  it("rejects redaction patterns that are not valid regular expressions", () => {
+    const result = validateConfig(
+      { redaction: { patterns: [{ name: "ticket", pattern: "ACME-(" }] } },
+      "x",
+    );
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual([expect.stringContaining("x: redaction.patterns.0.pattern:")]);
+  });
+
+  it("validates target map models", () => {
+    const result = validateConfig(
+      { targetMap: { agent: { plan: "build" }, model: { "anthropic/opus": "sonnet" } } },
+      "x",
+    );
+    expect(result.errors).toEqual([expect.stringContaining("x: targetMap.model.anthropic/opus:")]);
+  });
+
+  it("rejects non-object config", () => {
+    expect(validateConfig([], "x").errors).toEqual(["x: expected a JSON object"]);
+  });
+});
+
+describe("loadConfig", () => {
+  it("uses the defaults when no file exists", () => {
+    expect(loadConfig(dir, [path.join(dir, "missing.json")])).toEqual({
+      config: DEFAULT_CONFIG,
+      errors: [],
+    });
+  });
+
+  it("lets project values override global ones, merging nested options", () => {
+    const global = writeConfig(
+      "global.jsonc",
+      `{ "titleFormat": "Cont: {title}", "readSession": { "limit": 10, "maxMessageChars": 500 } }`,
+    );
+    const project = writeConfig("project.json", `{ "readSession": { "limit": 5 } }`);
+    const { config, errors } = loadConfig(dir, [global, project]);
+    expect(errors).toEqual([]);
+    expect(config.titleFormat).toBe("Cont: {title}");
+    expect(config.readSession).toEqual({
+      limit: 5,
+      maxMessageChars: 500,
+      maxToolChars: 400,
+      maxReasoningChars: 1000,
+    });
+    expect(config.carryOver).toEqual({ model: true, agent: true });
+  });
+
+  it("reports unparseable files and falls back to the defaults", () => {
+    const broken = writeConfig("broken.json", "{ not json");
+    const { config, errors } = loadConfig(dir, [broken]);
+    expect(config).toEqual(DEFAULT_CONFIG);
+    expect(errors[0]).toContain(broken);
+  });
+});
+
+describe("formatTitle", () => {
+  it("fills in the previous title and date", () => {
+    const now = new Date("2026-03-04T12:00:00Z");
+    expect(formatTitle("{date} · {title}", "Fix auth", now)).toBe("2026-03-04 · Fix auth");
+  });
+});
@@ -0,0 +1,235 @@
+import * as fs from "fs";
+import * as path from "path";
+import { tool, type PluginInput } from "@opencode-ai/plugin";
+import {
+  DEFAULT_AUTO_UPDATE,
+  getConfigDir,
+  getConfigPath,
+  type AutoUpdateOptions,
+} from "./auto-update.ts";
+import type { AutoHandoffOptions } from "./context-watch.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { checkPattern, type RedactionOptions } from "./redact.ts";
+import type { TargetMap } from "./retarget.ts";
+import type { HandoffCommandOptions } from "./command.ts";
+import { NAVIGATE_ACTIONS, type NavigateAction } from "./navigate.ts";
+import type { QualityOptions } from "./quality.ts";
+import type { ReadLimits } from "./read-session.ts";
+
+type PluginClient = PluginInput["client"];
+
+const CONFIG_NAME = "session-handoff";
+
+export interface HandoffConfig {
+  /** New session title; `{title}` is the previous title, `{date}` today's date. */
+  titleFormat: string;
+  /** Open the session picker after a handoff. Superseded by `navigate` when that is set. */
+  openPicker: boolean;
+  /** What to do in the TUI after a handoff. */
+  navigate?: NavigateAction;
+  autoUpdate: AutoUpdateOptions;
+  /** Start the new session on the previous session's model and agent. */
+  carryOver: { model: boolean; agent: boolean };
+  readSession: ReadLimits;
+  tokenBudget: number;
+  /** Template preset name or file path. */
+  template?: string;
+  contextWatch: AutoHandoffOptions;
+  redaction: RedactionOptions;
+  targetMap: TargetMap;
+  command: HandoffCommandOptions;
+  quality: QualityOptions;
+  /** Record read_session and search_session calls for `handoff_stats`. */
+  metrics: { enabled: boolean };
+}
+
+export const DEFAULT_CONFIG: HandoffConfig = {
+  titleFormat: "Handoff: {title}",
+  openPicker: true,
+  autoUpdate: DEFAULT_AUTO_UPDATE,
+  carryOver: { model: true, agent: true },
+  readSession: { limit: 20, maxMessageChars: 2000, maxToolChars: 400, maxReasoningChars: 1000 },
+  tokenBudget: 400,
+  contextWatch: { threshold: 0.8, action: "warn" },
+  redaction: { enabled: true, patterns: [] },
+  targetMap: { agent: {}, model: {} },
+  command: { enabled: true, keyword: false },
+  quality: { enabled: true, strict: false, minSummaryChars: 80, maxSummaryChars: 2000 },
+  metrics: { enabled: true },
+};
+
+const s = tool.schema;
+
+const configShape = {
+  titleFormat: s.string().trim().min(1),
+  openPicker: s.boolean(),
+  navigate: s.enum(NAVIGATE_ACTIONS),
+  autoUpdate: s
+    .object({
+      policy: s.enum(["off", "notify-only", "auto-install-patch-only", "auto-install"]),
+      channel: s.string().regex(/^[a-z0-9][a-z0-9._-]*$/i, "expected an npm dist-tag"),
+      registry: s.url({ protocol: /^https?$/ }),
+    })
+    .partial()
+    .strict(),
+  carryOver: s.object({ model: s.boolean(), agent: s.boolean() }).partial().strict(),
+  readSession: s
+    .object({
+      limit: s.number().int().min(1).max(100),
+      maxMessageChars: s.number().int().min(100),
+      maxToolChars: s.number().int().min(50),
+      maxReasoningChars: s.number().int().min(50),
+    })
+    .partial()
+    .strict(),
+  tokenBudget: s.number().int().positive(),
+  template: s.string().trim().min(1),
+  contextWatch: s
+    .object({
+      threshold: s.number().gt(0).lte(1),
+      action: s.enum(["off", "warn", "handoff"]),
+    })
+    .partial()
+    .strict(),
+  redaction: s
+    .object({
+      enabled: s.boolean(),
+      patterns: s.array(
+        s
+          .object({
+            name: s.string().trim().min(1),
+            pattern: s.string().min(1),
+          })
+          .strict()
+          .superRefine((p, ctx) => {
+            const error = checkPattern(p.pattern);
+            if (error) ctx.addIssue({ code: "custom", path: ["pattern"], message: error });
+          }),
+      ),
+    })
+    .partial()
+    .strict(),
+  targetMap: s
+    .object({
+      agent: s.record(s.string(), s.string().min(1)),
+      model: s.record(s.string(), s.string().regex(/^[^/\s]+\/\S+$/, "expected provider/model")),
+    })
+    .partial()
+    .strict(),
+  command: s.object({ enabled: s.boolean(), keyword: s.boolean() }).partial().strict(),
+  quality: s
+    .object({
+      enabled: s.boolean(),
+      strict: s.boolean(),
+      minSummaryChars: s.number().int().min(0),
+      maxSummaryChars: s.number().int().positive(),
+    })
+    .partial()
+    .strict(),
+  metrics: s.object({ enabled: s.boolean() }).partial().strict(),
+};
+
+type ConfigKey = keyof typeof configShape;
+
+export interface LoadedConfig {
+  config: HandoffConfig;
+  /** One line per rejected file or value; those values fall back to the defaults. */
+  errors: string[];
+}
+
+function isConfigKey(key: string): key is ConfigKey {
+  return Object.hasOwn(configShape, key);
+}
+
+/**
+ * Validates one config object key by key, so a bad value only loses that
+ * option instead of the whole file.
+ */
+export function validateConfig(
+  raw: unknown,
+  origin: string,
+): { values: Partial<HandoffConfig>; errors: string[] } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { values: {}, errors: [`${origin}: expected a JSON object`] };
+  }
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isConfigKey(key)) {
+      errors.push(`${origin}: unknown option "${key}"`);
+      continue;
+    }
+    const parsed = configShape[key].safeParse(value);
+    if (parsed.success) {
+      values[key] = parsed.data;
+      continue;
+    }
+    for (const issue of parsed.error.issues) {
+      errors.push(`${origin}: ${[key, ...issue.path].join(".")}: ${issue.message}`);
+    }
+  }
+  return { values: values as Partial<HandoffConfig>, errors };
+}
+
+function readConfigFile(file: string): { values: Partial<HandoffConfig>; errors: string[] } {
+  if (!fs.existsSync(file)) return { values: {}, errors: [] };
+  try {
+    return validateConfig(parseJsonc(fs.readFileSync(file, "utf-8")), file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { values: {}, errors: [`${file}: ${message}`] };
+  }
+}
+
+function merge(base: HandoffConfig, values: Partial<HandoffConfig>): HandoffConfig {
+  return {
+    ...base,
+    ...values,
+    autoUpdate: { ...base.autoUpdate, ...values.autoUpdate },
+    carryOver: { ...base.carryOver, ...values.carryOver },
+    readSession: { ...base.readSession, ...values.readSession },
+    contextWatch: { ...base.contextWatch, ...values.contextWatch },
+    redaction: { ...base.redaction, ...values.redaction },
+    targetMap: { ...base.targetMap, ...values.targetMap },
+    command: { ...base.command, ...values.command },
+    quality: { ...base.quality, ...values.quality },
+    metrics: { ...base.metrics, ...values.metrics },
+  };
+}
+
+/** Global then project config file; later files override earlier ones. */
+export function getConfigFiles(directory: string): string[] {
+  return [
+    getConfigPath(CONFIG_NAME, getConfigDir()),
+    getConfigPath(CONFIG_NAME, path.join(directory, ".opencode")),
+  ];
+}
+
+export function loadConfig(directory: string, files = getConfigFiles(directory)): LoadedConfig {
+  let config = DEFAULT_CONFIG;
+  const errors: string[] = [];
+  for (const file of files) {
+    const loaded = readConfigFile(file);
+    config = merge(config, loaded.values);
+    errors.push(...loaded.errors);
+  }
+  return { config, errors };
+}
+
+export function formatTitle(format: string, title: string, now = new Date()): string {
+  return format.replaceAll("{title}", title).replaceAll("{date}", now.toISOString().slice(0, 10));
+}
+
+export async function reportConfigErrors(client: PluginClient, errors: string[]): Promise<void> {
+  if (errors.length === 0) return;
+  try {
+    await client.tui.showToast({
+      body: {
+        message: `session-handoff config ignored:\n${errors.join("\n")}`,
+        variant: "warning",
+      },
+    });
+  } catch {
+    return;
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { AssistantMessage, Event, Part } from "@opencode-ai/sdk";
+import {
+  createContextWatchHook,
+  parseSummaryReply,
+  readAutoHandoffOptions,
+} from "./context-watch.ts";
+
+function assistant(input: number, sessionID = "ses_1"): AssistantMessage {
+  return {
+    id: "msg_1",
+    sessionID,
+    role: "assistant",
+    time: { created: 0, completed: 1 },
+    parentID: "msg_0",
+    modelID: "model",
+    providerID: "provider",
+    mode: "build",
+    path: { cwd: "/", root: "/" },
+    cost: 0,
+    tokens: { input, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+  };
+}
+
+const SUMMARY_REPLY = '{"summary": "Moved config loading.", "next_steps": ["Add tests"]}';
+
+function fakeClient() {
+  const showToast = vi.fn(async () => ({}));
+  const get = vi.fn(async ({ path }: { path: { id: string } }) => ({
+    data: { id: path.id, ...(path.id === "ses_child" && { parentID: "ses_1" }) },
+  }));
+  const prompt = vi.fn(async () => ({ data: { parts: [{ type: "text", text: SUMMARY_REPLY }] } }));
+  const client = {
+    config: {
+      providers: async () => ({
+        data: { providers: [{ id: "provider", models: { model: { limit: { context: 1000 } } } }] },
+      }),
+    },
+    session: { get, prompt },
+    tui: { showToast },
+  } as unknown as PluginInput["client"];
+  return { client, showToast, prompt, get };
+}
+
+function updated(info: AssistantMessage): { event: Event } {
+  return { event: { type: "message.updated", properties: { info } } };
+}
+
+function idle(sessionID: string): { event: Event } {
+  return { event: { type: "session.idle", properties: { sessionID } } };
+}
+
+/** Lets the detached auto handoff run to completion. */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("readAutoHandoffOptions", () => {
+  it("defaults to warning at 80%", () => {
+    expect(readAutoHandoffOptions({})).toEqual({ threshold: 0.8, action: "warn" });
+  });
+
+  it("reads threshold and action from the environment", () => {
+    const env = { OPENCODE_HANDOFF_THRESHOLD: "0.9", OPENCODE_HANDOFF_AUTO: "handoff" };
+    expect(readAutoHandoffOptions(env)).toEqual({ threshold: 0.9, action: "handoff" });
+  });
+
+  it("ignores invalid values", () => {
+    const env = { OPENCODE_HANDOFF_THRESHOLD: "90", OPENCODE_HANDOFF_AUTO: "yes" };
+    expect(readAutoHandoffOptions(env)).toEqual({ threshold: 0.8, action: "warn" });
+  });
+
+  it("falls back to the configured options", () => {
+    const base = { threshold: 0.7, action: "off" as const };
+    expect(readAutoHandoffOptions({}, base)).toEqual(base);
+    expect(readAutoHandoffOptions({ OPENCODE_HANDOFF_AUTO: "warn" }, base).action).toBe("warn");
+  });
+});
+
+describe("parseSummaryReply", () => {
+  it("extracts handoff arguments from a JSON reply", () => {
+    const parts = [
+      { type: "text", text: 'Here you go:\n{"summary": "Done.", "next_steps": ["Ship"]}' },
+    ] as Part[];
+    expect(parseSummaryReply(parts)).toEqual({ summary: "Done.", next_steps: ["Ship"] });
+  });
+
+  it("returns null for missing or invalid JSON", () => {
+    expect(parseSummaryReply([{ type: "text", text: "no json" }] as Part[])).toBeNull();
+    expect(parseSummaryReply([{ type: "text", text: '{"goal": 1}' }] as Part[])).toBeNull();
+  });
+});
+
+describe("createContextWatchHook", () => {
+  const options = { threshold: 0.8, action: "warn" as const };
+
+  it("warns once when usage crosses the threshold", async () => {
+    const { client, showToast } = fakeClient();
+    const hook = createContextWatchHook({ directory: "/", client }, options, vi.fn());
+    await hook.event(updated(assistant(500)));
+    expect(showToast).not.toHaveBeenCalled();
+    await hook.event(updated(assistant(850)));
+    await hook.event(updated(assistant(900)));
+    expect(showToast).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands off with the model's summary once the session goes idle", async () => {
+    const { client, prompt } = fakeClient();
+    const runHandoff = vi.fn().mockResolvedValue("✓ Session created");
+    const auto = { threshold: 0.8, action: "handoff" as const };
+    const hook = createContextWatchHook({ directory: "/", client }, auto, runHandoff);
+    await hook.event(updated(assistant(900)));
+    expect(prompt).not.toHaveBeenCalled();
+
+    await hook.event(idle("ses_1"));
+    await flush();
+    expect(runHandoff).toHaveBeenCalledWith("ses_1", {
+      summary: "Moved config loading.",
+      next_steps: ["Add tests"],
+    });
+    expect(prompt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          tools: expect.objectContaining({
+            session_handoff: false,
+            handoff_confirm: false,
+            handoff_export: false,
+            handoff_import: false,
+            read_session: false,
+            search_session: false,
+          }),
+        }),
+      }),
+    );
+  });
+
+  it("ignores subagent sessions, looking each one up once", async () => {
+    const { client, showToast, get } = fakeClient();
+    const hook = createContextWatchHook({ directory: "/", client }, options, vi.fn());
+    await hook.event(updated(assistant(850, "ses_child")));
+    await hook.event(updated(assistant(900, "ses_child")));
+    expect(showToast).not.toHaveBeenCalled();
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when turned off", async () => {
+    const { client, showToast } = fakeClient();
+    const off = { threshold: 0.8, action: "off" as const };
+    const hook = createContextWatchHook({ directory: "/", client }, off, vi.fn());
+    await hook.event(updated(assistant(950)));
+    expect(showToast).not.toHaveBeenCalled();
+  });
+});
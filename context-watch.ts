@@ -0,0 +1,214 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { AssistantMessage, Event, Part } from "@opencode-ai/sdk";
+import { validateHandoffArgs, type HandoffToolArgs } from "./args.ts";
+
+type PluginClient = PluginInput["client"];
+
+const DEFAULT_THRESHOLD = 0.8;
+
+const SUMMARY_REQUEST = `The context window is nearly full and this session is being handed off to a new one.
+Reply with ONLY a JSON object, no other text, in this shape:
+{"summary": "1-3 sentence summary of current state", "goal": "what to do next", "next_steps": ["..."], "blocked": "current blocker or empty", "key_decisions": ["..."], "files_modified": ["..."]}`;
+
+/**
+ * This plugin's tools, all turned off for the summary turn so the model
+ * replies with JSON instead of handing off, exporting or reading sessions.
+ */
+const PLUGIN_TOOLS = [
+  "session_handoff",
+  "handoff_confirm",
+  "handoff_export",
+  "handoff_import",
+  "read_session",
+  "search_session",
+  "handoff_history",
+  "handoff_stats",
+];
+
+export type AutoHandoffAction = "off" | "warn" | "handoff";
+
+export interface AutoHandoffOptions {
+  /** Fraction of the model's context window (0-1) at which to act. */
+  threshold: number;
+  action: AutoHandoffAction;
+}
+
+interface WatchContext {
+  directory: string;
+  client: PluginClient;
+}
+
+type RunHandoff = (sessionID: string, args: HandoffToolArgs) => Promise<string>;
+
+/** Environment variables override `base`, which normally comes from the config file. */
+export function readAutoHandoffOptions(
+  env: Record<string, string | undefined> = process.env,
+  base: AutoHandoffOptions = { threshold: DEFAULT_THRESHOLD, action: "warn" },
+): AutoHandoffOptions {
+  const threshold = Number(env.OPENCODE_HANDOFF_THRESHOLD);
+  const action = env.OPENCODE_HANDOFF_AUTO;
+  return {
+    threshold: threshold > 0 && threshold <= 1 ? threshold : base.threshold,
+    action: action === "off" || action === "warn" || action === "handoff" ? action : base.action,
+  };
+}
+
+export function contextTokens(msg: AssistantMessage): number {
+  const { input, output, cache } = msg.tokens;
+  return input + output + cache.read + cache.write;
+}
+
+async function fetchContextLimit(
+  ctx: WatchContext,
+  providerID: string,
+  modelID: string,
+): Promise<number | null> {
+  try {
+    const result = await ctx.client.config.providers({ query: { directory: ctx.directory } });
+    const provider = result?.data?.providers.find((p) => p.id === providerID);
+    return provider?.models[modelID]?.limit.context || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Subagent (task tool) sessions have a parent; they are never warned about or handed off. */
+async function fetchIsChildSession(ctx: WatchContext, sessionID: string): Promise<boolean> {
+  try {
+    const result = await ctx.client.session.get({
+      path: { id: sessionID },
+      query: { directory: ctx.directory },
+    });
+    return !!result?.data?.parentID;
+  } catch {
+    return false;
+  }
+}
+
+async function showToast(
+  client: PluginClient,
+  message: string,
+  variant: "info" | "warning" | "error",
+): Promise<void> {
+  try {
+    await client.tui.showToast({ body: { message, variant } });
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Pulls the first JSON object out of the model's reply and validates it as
+ * `session_handoff` arguments.
+ */
+export function parseSummaryReply(parts: Part[]): HandoffToolArgs | null {
+  const text = parts
+    .filter((p): p is Part & { type: "text"; text: string } => p.type === "text")
+    .map((p) => p.text)
+    .join("\n");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    const validated = validateHandoffArgs(JSON.parse(text.slice(start, end + 1)));
+    return validated.ok ? validated.args : null;
+  } catch {
+    return null;
+  }
+}
+
+async function requestSummary(
+  ctx: WatchContext,
+  msg: AssistantMessage,
+): Promise<HandoffToolArgs | null> {
+  const result = await ctx.client.session.prompt({
+    path: { id: msg.sessionID },
+    query: { directory: ctx.directory },
+    body: {
+      model: { providerID: msg.providerID, modelID: msg.modelID },
+      agent: msg.mode,
+      tools: Object.fromEntries(PLUGIN_TOOLS.map((name) => [name, false])),
+      parts: [{ type: "text", text: SUMMARY_REQUEST }],
+    },
+  });
+  return result?.data ? parseSummaryReply(result.data.parts) : null;
+}
+
+async function runAutoHandoff(
+  ctx: WatchContext,
+  msg: AssistantMessage,
+  runHandoff: RunHandoff,
+): Promise<void> {
+  // Without a usable reply, hand off anyway and let the summary be generated from the session.
+  const args = (await requestSummary(ctx, msg).catch(() => null)) ?? {};
+  const result = await runHandoff(msg.sessionID, args);
+  await showToast(ctx.client, `Auto handoff: ${result}`, "info");
+}
+
+export function createContextWatchHook(
+  ctx: WatchContext,
+  options: AutoHandoffOptions,
+  runHandoff: RunHandoff,
+) {
+  const limits = new Map<string, number | null>();
+  const children = new Map<string, boolean>();
+  const triggered = new Set<string>();
+  const pending = new Map<string, AssistantMessage>();
+
+  async function getLimit(msg: AssistantMessage): Promise<number | null> {
+    const key = `${msg.providerID}/${msg.modelID}`;
+    if (!limits.has(key)) {
+      limits.set(key, await fetchContextLimit(ctx, msg.providerID, msg.modelID));
+    }
+    return limits.get(key) ?? null;
+  }
+
+  async function isChildSession(sessionID: string): Promise<boolean> {
+    if (!children.has(sessionID)) {
+      children.set(sessionID, await fetchIsChildSession(ctx, sessionID));
+    }
+    return children.get(sessionID) ?? false;
+  }
+
+  async function onAssistantCompleted(msg: AssistantMessage): Promise<void> {
+    if (triggered.has(msg.sessionID)) return;
+    if (await isChildSession(msg.sessionID)) return;
+    const limit = await getLimit(msg);
+    if (!limit) return;
+    const usage = contextTokens(msg) / limit;
+    if (usage < options.threshold) return;
+
+    triggered.add(msg.sessionID);
+    const percent = Math.round(usage * 100);
+    if (options.action === "handoff") {
+      pending.set(msg.sessionID, msg);
+      await showToast(ctx.client, `Context ${percent}% full. Handing off when idle.`, "warning");
+      return;
+    }
+    await showToast(ctx.client, `Context ${percent}% full. Consider a session handoff.`, "warning");
+  }
+
+  async function onSessionIdle(sessionID: string): Promise<void> {
+    const msg = pending.get(sessionID);
+    if (!msg) return;
+    pending.delete(sessionID);
+    // Detached: the summary prompt runs a full model turn and must not hold up the event stream.
+    runAutoHandoff(ctx, msg, runHandoff).catch(() => {});
+  }
+
+  return {
+    event: async ({ event }: { event: Event }): Promise<void> => {
+      if (options.action === "off") return;
+      try {
+        if (event.type === "message.updated") {
+          const info = event.properties.info;
+          if (info.role === "assistant" && info.time.completed) await onAssistantCompleted(info);
+        } else if (event.type === "session.idle") {
+          await onSessionIdle(event.properties.sessionID);
+        }
+      } catch {
+        return;
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { parseStatus, trimDiffStat } from "./git.ts";
+
+describe("parseStatus", () => {
+  it("reads branch, head, ahead/behind and change counts", () => {
+    const output = [
+      "# branch.oid 1234567890abcdef",
+      "# branch.head feature/login",
+      "# branch.upstream origin/feature/login",
+      "# branch.ab +2 -1",
+      "1 M. N... 100644 100644 100644 aaa bbb src/a.ts",
+      "1 .M N... 100644 100644 100644 aaa bbb src/b.ts",
+      "1 MM N... 100644 100644 100644 aaa bbb src/c.ts",
+      "2 R. N... 100644 100644 100644 aaa bbb R100 src/d.ts\tsrc/old.ts",
+      "u UU N... 100644 100644 100644 100644 aaa bbb ccc src/e.ts",
+      "? notes.md",
+      "",
+    ].join("\n");
+    expect(parseStatus(output)).toEqual({
+      branch: "feature/login",
+      head: "1234567",
+      ahead: 2,
+      behind: 1,
+      staged: 3,
+      unstaged: 3,
+      untracked: 1,
+      diffStat: [],
+    });
+  });
+
+  it("handles a repository without commits", () => {
+    const snapshot = parseStatus("# branch.oid (initial)\n# branch.head main\n");
+    expect(snapshot.head).toBe("");
+    expect(snapshot.branch).toBe("main");
+  });
+});
+
+const twelveFiles = Array.from({ length: 12 }, (_, i) => ` f${i}.ts | 1 +`);
+
+describe("trimDiffStat", () => {
+  it("keeps the totals line and caps file lines", () => {
+    const output = [...twelveFiles, " 12 files changed, 12 insertions(+)", ""].join("\n");
+    const trimmed = trimDiffStat(output);
+    expect(trimmed).toHaveLength(12);
+    expect(trimmed[10]).toBe(" ... 2 more files");
+    expect(trimmed[11]).toBe(" 12 files changed, 12 insertions(+)");
+  });
+
+  it("returns nothing for an empty diff", () => {
+    expect(trimDiffStat("")).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+const GIT_TIMEOUT_MS = 5000;
+const MAX_DIFF_STAT_FILES = 10;
+
+export interface GitSnapshot {
+  branch: string;
+  head: string;
+  ahead?: number;
+  behind?: number;
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  diffStat: string[];
+}
+
+async function runGit(args: string[], cwd: string): Promise<string | null> {
+  try {
+    const proc = Bun.spawn(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" });
+    const timeoutId = setTimeout(() => proc.kill(), GIT_TIMEOUT_MS);
+    const [output, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+    clearTimeout(timeoutId);
+    return exitCode === 0 ? output : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseBranchHeader(line: string, snapshot: GitSnapshot): void {
+  const [, key, ...rest] = line.split(" ");
+  const value = rest.join(" ");
+  if (key === "branch.oid") snapshot.head = value === "(initial)" ? "" : value.slice(0, 7);
+  else if (key === "branch.head") snapshot.branch = value;
+  else if (key === "branch.ab") {
+    const match = value.match(/^\+(\d+) -(\d+)$/);
+    if (match) {
+      snapshot.ahead = Number(match[1]);
+      snapshot.behind = Number(match[2]);
+    }
+  }
+}
+
+function countEntry(line: string, snapshot: GitSnapshot): void {
+  if (line.startsWith("? ")) {
+    snapshot.untracked++;
+    return;
+  }
+  if (line.startsWith("u ")) {
+    snapshot.unstaged++;
+    return;
+  }
+  if (!line.startsWith("1 ") && !line.startsWith("2 ")) return;
+  const xy = line.slice(2, 4);
+  if (xy[0] !== ".") snapshot.staged++;
+  if (xy[1] !== ".") snapshot.unstaged++;
+}
+
+/** Parses `git status --porcelain=v2 --branch` output. */
+export function parseStatus(output: string): GitSnapshot {
+  const snapshot: GitSnapshot = {
+    branch: "",
+    head: "",
+    staged: 0,
+    unstaged: 0,
+    untracked: 0,
+    diffStat: [],
+  };
+  for (const line of output.split("\n")) {
+    if (line.startsWith("# ")) parseBranchHeader(line, snapshot);
+    else countEntry(line, snapshot);
+  }
+  return snapshot;
+}
+
+/** Keeps the first few file lines of `git diff --stat` plus its totals line. */
+export function trimDiffStat(output: string): string[] {
+  const lines = output.split("\n").filter((l) => l.trim());
+  const totals = lines.pop();
+  if (!totals) return [];
+  const files = lines.slice(0, MAX_DIFF_STAT_FILES).map((l) => l.trimEnd());
+  if (lines.length > MAX_DIFF_STAT_FILES) {
+    files.push(` ... ${lines.length - MAX_DIFF_STAT_FILES} more files`);
+  }
+  return [...files, totals.trimEnd()];
+}
+
+/**
+ * Captures branch, HEAD, ahead/behind, change counts and a trimmed diff stat
+ * for `directory`. Returns null when it is not a git work tree or git fails.
+ */
+export async function captureGitSnapshot(directory: string): Promise<GitSnapshot | null> {
+  const status = await runGit(["status", "--porcelain=v2", "--branch"], directory);
+  if (status === null) return null;
+  const snapshot = parseStatus(status);
+  if (snapshot.head) {
+    const diffStat = await runGit(["diff", "HEAD", "--stat=100"], directory);
+    if (diffStat) snapshot.diffStat = trimDiffStat(diffStat);
+  }
+  return snapshot;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readHandoffFiles, writeHandoffFiles, type HandoffFile } from "./handoff-file.ts";
+
+const sidecar: HandoffFile = {
+  version: 1,
+  title: "Handoff: Auth / login work!",
+  exportedAt: "2026-01-19T14:30:05.123Z",
+  agent: "build",
+  handoff: {
+    previousSessionId: "ses_prev",
+    summary: "Refactored auth.",
+    blocked: "",
+    modified_files: ["src/auth.ts"],
+    reference_files: [],
+    decisions: [],
+    tried_failed: [],
+    next_steps: ["Add tests"],
+    user_prefs: [],
+  },
+};
+
+function tempProject(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "handoff-export-"));
+}
+
+describe("writeHandoffFiles", () => {
+  it("writes the prompt and sidecar under a timestamped slug", () => {
+    const dir = tempProject();
+    const result = writeHandoffFiles(dir, "## Session Handoff", sidecar);
+    const file = path.join(".opencode", "handoffs", "20260119-143005-handoff-auth-login-work.md");
+    expect(result).toEqual({ ok: true, file });
+    expect(fs.readFileSync(path.join(dir, file), "utf-8")).toBe("## Session Handoff\n");
+    const json = JSON.parse(fs.readFileSync(path.join(dir, file.replace(".md", ".json")), "utf-8"));
+    expect(json).toEqual(sidecar);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does not overwrite an earlier export with the same name", () => {
+    const dir = tempProject();
+    writeHandoffFiles(dir, "first", sidecar);
+    const second = writeHandoffFiles(dir, "second", sidecar);
+    expect(second.ok && second.file).toMatch(/-handoff-auth-login-work-2\.md$/);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("readHandoffFiles", () => {
+  it("reads an export by file name, preferring the Markdown prompt", () => {
+    const dir = tempProject();
+    const written = writeHandoffFiles(dir, "Edited prompt", sidecar);
+    if (!written.ok) throw new Error(written.error);
+    const loaded = readHandoffFiles(dir, path.basename(written.file));
+    expect(loaded).toEqual({ ok: true, file: written.file, prompt: "Edited prompt", sidecar });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("renders the prompt from the sidecar when the Markdown file is gone", () => {
+    const dir = tempProject();
+    const written = writeHandoffFiles(dir, "Prompt", sidecar);
+    if (!written.ok) throw new Error(written.error);
+    fs.rmSync(path.join(dir, written.file));
+    const loaded = readHandoffFiles(dir, written.file.replace(".md", ".json"));
+    expect(loaded.ok && loaded.prompt).toContain("Refactored auth.");
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects a sidecar whose rendered fields are malformed instead of throwing", () => {
+    const dir = tempProject();
+    const handoffs = path.join(dir, ".opencode", "handoffs");
+    fs.mkdirSync(handoffs, { recursive: true });
+    const broken = { ...sidecar, handoff: { ...sidecar.handoff, git: {} } };
+    fs.writeFileSync(path.join(handoffs, "git.json"), JSON.stringify(broken));
+    expect(readHandoffFiles(dir, "git.json")).toEqual({
+      ok: false,
+      error: expect.stringContaining("invalid git.json: handoff.git.branch"),
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("drops fields the sidecar format does not know", () => {
+    const dir = tempProject();
+    const written = writeHandoffFiles(dir, "Prompt", sidecar);
+    if (!written.ok) throw new Error(written.error);
+    const json = path.join(dir, written.file.replace(".md", ".json"));
+    fs.writeFileSync(json, JSON.stringify({ ...sidecar, extra: true }));
+    const loaded = readHandoffFiles(dir, written.file);
+    expect(loaded.ok && loaded.sidecar).toEqual(sidecar);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects invalid sidecars and files outside the project", () => {
+    const dir = tempProject();
+    const handoffs = path.join(dir, ".opencode", "handoffs");
+    fs.mkdirSync(handoffs, { recursive: true });
+    fs.writeFileSync(path.join(handoffs, "broken.json"), JSON.stringify({ version: 2 }));
+    expect(readHandoffFiles(dir, "broken.json")).toEqual({
+      ok: false,
+      error: expect.stringContaining("invalid broken.json: version"),
+    });
+    const outside = path.join(path.dirname(dir), "outside.md");
+    fs.writeFileSync(outside, "Prompt");
+    expect(readHandoffFiles(dir, "../outside.md").ok).toBe(false);
+    fs.rmSync(outside);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,216 @@
+import { tool } from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as path from "path";
+import type { GitSnapshot } from "./git.ts";
+import { renderHandoffPrompt, type HandoffArgs, type PromptOptions } from "./prompt.ts";
+import type { Todo } from "./todos.ts";
+
+const s = tool.schema;
+
+/** Where exported handoffs go, relative to the project directory. */
+export const HANDOFF_EXPORT_DIR = path.join(".opencode", "handoffs");
+
+/** The JSON sidecar written next to each exported prompt. */
+export interface HandoffFile {
+  version: 1;
+  title: string;
+  exportedAt: string;
+  /** Session started with this handoff, when one was created. */
+  sessionId?: string;
+  agent?: string;
+  model?: { providerID: string; modelID: string };
+  handoff: HandoffArgs;
+}
+
+const stringList = s.array(s.string());
+
+const gitSchema = s.object({
+  branch: s.string(),
+  head: s.string(),
+  ahead: s.number().optional(),
+  behind: s.number().optional(),
+  staged: s.number(),
+  unstaged: s.number(),
+  untracked: s.number(),
+  diffStat: stringList,
+});
+
+const todoSchema = s.object({
+  content: s.string(),
+  status: s.string(),
+  priority: s.string().optional(),
+  id: s.string().optional(),
+});
+
+// Every field the prompt renders is checked, and unknown ones are dropped, so
+// a hand-edited sidecar fails with a message instead of breaking the render.
+const handoffFileSchema = s.object({
+  version: s.literal(1),
+  title: s.string().min(1),
+  exportedAt: s.string(),
+  sessionId: s.string().optional(),
+  agent: s.string().optional(),
+  model: s.object({ providerID: s.string(), modelID: s.string() }).optional(),
+  handoff: s.object({
+    previousSessionId: s.string(),
+    summary: s.string(),
+    summary_auto: s.boolean().optional(),
+    blocked: s.string(),
+    modified_files: stringList,
+    reference_files: stringList,
+    file_counts: s.record(s.string(), s.number()).optional(),
+    decisions: s.array(s.object({ decision: s.string(), reason: s.string() })),
+    tried_failed: s.array(s.object({ approach: s.string(), why_failed: s.string() })),
+    next_steps: stringList,
+    user_prefs: stringList,
+    todos: s.array(todoSchema).optional(),
+    todos_restored: s.boolean().optional(),
+    goal: s.string().optional(),
+    git: gitSchema.optional(),
+  }),
+});
+
+export type ExportResult = { ok: true; file: string } | { ok: false; error: string };
+
+export type LoadedHandoff =
+  | { ok: true; file: string; prompt: string; sidecar: HandoffFile | null }
+  | { ok: false; error: string };
+
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50)
+    .replace(/-+$/, "");
+  return slug || "handoff";
+}
+
+/** `20260119-143005`, in UTC so names sort the same on every machine. */
+function formatStamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+}
+
+function freeBaseName(dir: string, base: string): string {
+  let name = base;
+  for (let n = 2; fs.existsSync(path.join(dir, `${name}.md`)); n++) name = `${base}-${n}`;
+  return name;
+}
+
+/**
+ * Writes `prompt` to `.opencode/handoffs/<timestamp>-<slug>.md` in `directory`
+ * with `sidecar` next to it as `.json`. Returns the Markdown path relative to
+ * `directory`.
+ */
+export function writeHandoffFiles(
+  directory: string,
+  prompt: string,
+  sidecar: HandoffFile,
+): ExportResult {
+  try {
+    const dir = path.join(directory, HANDOFF_EXPORT_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    const stamp = formatStamp(new Date(sidecar.exportedAt));
+    const name = freeBaseName(dir, `${stamp}-${slugify(sidecar.title)}`);
+    fs.writeFileSync(path.join(dir, `${name}.md`), prompt.endsWith("\n") ? prompt : `${prompt}\n`);
+    fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(sidecar, null, 2) + "\n");
+    return { ok: true, file: path.join(HANDOFF_EXPORT_DIR, `${name}.md`) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Resolves `file` inside `directory`, trying the export directory for bare names. */
+function resolveHandoffPath(directory: string, file: string): string | null {
+  const root = path.resolve(directory);
+  const candidates = [path.resolve(root, file), path.resolve(root, HANDOFF_EXPORT_DIR, file)];
+  for (const candidate of candidates) {
+    const relative = path.relative(root, candidate);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) continue;
+    const base = candidate.replace(/\.(md|json)$/, "");
+    if (fs.existsSync(`${base}.md`) || fs.existsSync(`${base}.json`)) return base;
+  }
+  return null;
+}
+
+type ParsedHandoffFile = ReturnType<typeof handoffFileSchema.parse>;
+type ParsedHandoff = ParsedHandoffFile["handoff"];
+
+// The parsed types allow `undefined` in optional fields, which the exact
+// optional types of HandoffFile do not; these copy only the fields present.
+
+function toTodo({ priority, id, ...todo }: NonNullable<ParsedHandoff["todos"]>[number]): Todo {
+  return { ...todo, ...(priority !== undefined && { priority }), ...(id !== undefined && { id }) };
+}
+
+function toGitSnapshot({ ahead, behind, ...git }: NonNullable<ParsedHandoff["git"]>): GitSnapshot {
+  return { ...git, ...(ahead !== undefined && { ahead }), ...(behind !== undefined && { behind }) };
+}
+
+function toHandoffArgs(parsed: ParsedHandoff): HandoffArgs {
+  const { summary_auto, file_counts, todos, todos_restored, goal, git, ...required } = parsed;
+  return {
+    ...required,
+    ...(summary_auto !== undefined && { summary_auto }),
+    ...(file_counts && { file_counts }),
+    ...(todos && { todos: todos.map(toTodo) }),
+    ...(todos_restored !== undefined && { todos_restored }),
+    ...(goal !== undefined && { goal }),
+    ...(git && { git: toGitSnapshot(git) }),
+  };
+}
+
+function toHandoffFile(parsed: ParsedHandoffFile): HandoffFile {
+  const { sessionId, agent, model, handoff, ...required } = parsed;
+  return {
+    ...required,
+    ...(sessionId !== undefined && { sessionId }),
+    ...(agent !== undefined && { agent }),
+    ...(model && { model }),
+    handoff: toHandoffArgs(handoff),
+  };
+}
+
+function readSidecar(
+  file: string,
+): { ok: true; sidecar: HandoffFile } | { ok: false; error: string } {
+  try {
+    const result = handoffFileSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+    if (result.success) return { ok: true, sidecar: toHandoffFile(result.data) };
+    const issue = result.error.issues[0];
+    return { ok: false, error: `${issue?.path.join(".") || "file"}: ${issue?.message}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Loads an exported handoff. The Markdown prompt is preferred, since
+ * teammates may have edited it; the sidecar supplies the title and todos, and
+ * the prompt (rendered with `options`) when the Markdown file is missing.
+ */
+export function readHandoffFiles(
+  directory: string,
+  file: string,
+  options: PromptOptions = {},
+): LoadedHandoff {
+  const base = resolveHandoffPath(directory, file);
+  if (!base) return { ok: false, error: `no exported handoff "${file}" in the project` };
+  const markdown = `${base}.md`;
+  const prompt = fs.existsSync(markdown) ? fs.readFileSync(markdown, "utf-8").trim() : "";
+  let sidecar: HandoffFile | null = null;
+  if (fs.existsSync(`${base}.json`)) {
+    const read = readSidecar(`${base}.json`);
+    if (!read.ok) return { ok: false, error: `invalid ${path.basename(base)}.json: ${read.error}` };
+    sidecar = read.sidecar;
+  }
+  const shown = path.relative(directory, fs.existsSync(markdown) ? markdown : `${base}.json`);
+  if (prompt) return { ok: true, file: shown, prompt, sidecar };
+  if (!sidecar) return { ok: false, error: `${shown} is empty` };
+  return {
+    ok: true,
+    file: shown,
+    prompt: renderHandoffPrompt(sidecar.handoff, options).prompt,
+    sidecar,
+  };
+}
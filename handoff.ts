@@ -0,0 +1,483 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import * as path from "path";
+import type { HandoffToolArgs } from "./args.ts";
+import { formatTitle, type HandoffConfig } from "./config.ts";
+import {
+  readHandoffFiles,
+  writeHandoffFiles,
+  type ExportResult,
+  type HandoffFile,
+} from "./handoff-file.ts";
+import { appendHandoffRecord } from "./ledger.ts";
+import {
+  estimateTokens,
+  renderHandoffPrompt,
+  type HandoffArgs,
+  type PromptOptions,
+  type RenderedPrompt,
+} from "./prompt.ts";
+import { formatSessionIdLine, navigateToSession, resolveNavigateAction } from "./navigate.ts";
+import { formatQualityWarnings, lintHandoff } from "./quality.ts";
+import { createRedactor, formatRedactionCount, redactValue, type Redactor } from "./redact.ts";
+import { buildFallbackSummary, mergeFiles, type FileActivity } from "./session-scan.ts";
+import { gatherSessionContext, type ModelConfig, type SessionContext } from "./source-session.ts";
+import { openSessionTarget, resolveSessionTarget, type SessionTarget } from "./session-target.ts";
+import { loadTemplate } from "./template.ts";
+import { describeChanges, resolveRetarget } from "./retarget.ts";
+import { canRestoreTodos, restoreTodos } from "./todos.ts";
+
+type PluginClient = PluginInput["client"];
+
+function readTokenBudget(
+  fallback: number,
+  env: Record<string, string | undefined> = process.env,
+): number {
+  const budget = Number(env.OPENCODE_HANDOFF_TOKEN_BUDGET);
+  return Number.isInteger(budget) && budget > 0 ? budget : fallback;
+}
+
+export interface PluginContext {
+  directory: string;
+  client: PluginClient;
+  serverUrl: URL;
+  config: HandoffConfig;
+}
+
+interface PromptSessionParams {
+  client: PluginClient;
+  directory: string;
+  sessionId: string;
+  context: SessionContext;
+  handoffPrompt: string;
+}
+
+async function promptSession(params: PromptSessionParams): Promise<void> {
+  const { client, directory, sessionId, context, handoffPrompt } = params;
+  const body: {
+    model?: ModelConfig;
+    agent?: string;
+    parts: Array<{ type: "text"; text: string }>;
+  } = { parts: [{ type: "text" as const, text: handoffPrompt }] };
+  if (context.modelConfig) body.model = context.modelConfig;
+  if (context.agent) body.agent = context.agent;
+
+  await client.session.promptAsync({
+    path: { id: sessionId },
+    query: { directory },
+    body,
+  });
+}
+
+function toDecisions(decisions: HandoffToolArgs["key_decisions"]): HandoffArgs["decisions"] {
+  return (decisions || []).map((d) =>
+    typeof d === "string"
+      ? { decision: d, reason: "" }
+      : { decision: d.decision, reason: d.reason || "" },
+  );
+}
+
+function buildSummary(args: HandoffToolArgs, context: SessionContext) {
+  if (args.summary) return { summary: args.summary };
+  return { summary: buildFallbackSummary(context.messages), summary_auto: true };
+}
+
+function buildFiles(args: HandoffToolArgs, files: FileActivity) {
+  const counts: Record<string, number> = {};
+  for (const f of [...files.referenced, ...files.modified]) counts[f.path] = f.count;
+  const modified = mergeFiles(args.files_modified, files.modified);
+  const reference = mergeFiles(args.reference_files, files.referenced).filter(
+    (f) => !modified.includes(f),
+  );
+  return { modified_files: modified, reference_files: reference, file_counts: counts };
+}
+
+/** Inherited preferences first, then new ones, skipping repeats regardless of case. */
+function mergePreferences(inherited: string[], added: string[]): string[] {
+  const seen = new Set<string>();
+  return [...inherited, ...added]
+    .map((p) => p.trim())
+    .filter((p) => {
+      const key = p.toLowerCase();
+      if (!p || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function buildHandoffArgs(
+  args: HandoffToolArgs,
+  sessionID: string,
+  context: SessionContext,
+): HandoffArgs {
+  const todos = context.todos;
+  return {
+    previousSessionId: sessionID,
+    ...buildSummary(args, context),
+    blocked: args.blocked || "",
+    ...buildFiles(args, context.files),
+    decisions: toDecisions(args.key_decisions),
+    tried_failed: args.tried_failed || [],
+    next_steps: args.next_steps || [],
+    user_prefs: mergePreferences(context.userPrefs ?? [], args.user_prefs || []),
+    ...(todos.length > 0 && { todos }),
+    ...(args.goal && { goal: args.goal }),
+    ...(context.git && { git: context.git }),
+  };
+}
+
+interface RecordParams {
+  handoff: HandoffArgs;
+  context: SessionContext;
+  sessionId: string;
+  title: string;
+  prompt: string;
+}
+
+/** Appends the handoff to the ledger, redacting the free-text fields the way the prompt is. */
+function recordHandoff(pluginCtx: PluginContext, params: RecordParams): void {
+  const { handoff, context } = params;
+  const text = {
+    title: params.title,
+    summary: handoff.summary,
+    ...(handoff.goal && { goal: handoff.goal }),
+    todos: context.todos,
+    ...(handoff.user_prefs.length > 0 && { userPrefs: handoff.user_prefs }),
+  };
+  const redact = createRedactor(pluginCtx.config.redaction);
+  appendHandoffRecord({
+    previousSessionId: handoff.previousSessionId,
+    sessionId: params.sessionId,
+    ...(redact ? redactValue(text, redact).value : text),
+    ...(context.modelConfig && { model: context.modelConfig }),
+    ...(context.agent && { agent: context.agent }),
+    promptTokens: estimateTokens(params.prompt),
+    ...(context.contextTokens && { sourceTokens: context.contextTokens }),
+    directory: pluginCtx.directory,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/** Drops the previous session's model or agent when the config says not to carry it over. */
+function withCarryOver(context: SessionContext, config: HandoffConfig): SessionContext {
+  const { modelConfig, agent, ...rest } = context;
+  return {
+    ...rest,
+    ...(config.carryOver.model && modelConfig && { modelConfig }),
+    ...(config.carryOver.agent && agent && { agent }),
+  };
+}
+
+/** A handoff with everything worked out but nothing created yet. */
+export interface PreparedHandoff {
+  /** The session being handed off from. */
+  sessionID: string;
+  args: HandoffToolArgs;
+  context: SessionContext;
+  title: string;
+  target: SessionTarget;
+  /** Agent and model switches from the previous session, e.g. "agent plan → build". */
+  changes: string[];
+  handoffArgs: HandoffArgs;
+  promptOptions: PromptOptions;
+}
+
+export function describeTarget(context: SessionContext): string {
+  const model = context.modelConfig;
+  const modelDisplay = model ? `${model.providerID}/${model.modelID}` : "default model";
+  return `${context.agent || "default"} · ${modelDisplay}`;
+}
+
+/** Quality warnings for the handoff as it would be sent now, overrides included. */
+export function checkHandoffQuality(pluginCtx: PluginContext, prepared: PreparedHandoff): string[] {
+  return lintHandoff(
+    {
+      handoff: prepared.handoffArgs,
+      filesModified: prepared.args.files_modified ?? [],
+      directory: pluginCtx.directory,
+    },
+    pluginCtx.config.quality,
+  );
+}
+
+/** The error returned instead of a session when strict quality checks fail, or null. */
+function blockedByQuality(pluginCtx: PluginContext, warnings: string[]): string | null {
+  if (!pluginCtx.config.quality.strict || warnings.length === 0) return null;
+  return `Error: handoff not sent; it fails the quality checks and quality.strict is on.\n${formatQualityWarnings(warnings)}\nFix these and try again.`;
+}
+
+function formatWarningsNote(warnings: string[]): string {
+  return warnings.length > 0 ? `\n\n${formatQualityWarnings(warnings)}` : "";
+}
+
+function formatExportNote(exported: ExportResult | null): string {
+  if (!exported) return "";
+  return exported.ok ? ` Exported to ${exported.file}.` : ` Export failed: ${exported.error}.`;
+}
+
+interface HandoffOutcome {
+  sessionId: string;
+  rendered: RenderedPrompt;
+  /** From `navigateToSession`. */
+  navigation: string;
+  exported: ExportResult | null;
+  warnings: string[];
+}
+
+function formatHandoffResult(prepared: PreparedHandoff, outcome: HandoffOutcome): string {
+  const { rendered, navigation, exported, warnings } = outcome;
+  const { target } = prepared;
+  const action = target.kind === "existing" ? "handed off into" : "created";
+  const forkNote =
+    target.kind === "new" && target.parentID ? ` as a child of ${target.parentID}` : "";
+  const redactionNote = rendered.redactions ? ` ${formatRedactionCount(rendered.redactions)}.` : "";
+  const changeNote = prepared.changes.length > 0 ? ` Switched ${prepared.changes.join(", ")}.` : "";
+  const autoNote = prepared.handoffArgs.summary_auto
+    ? " No summary given; one was generated from the session."
+    : "";
+  return `✓ Session "${prepared.title}" ${action}${forkNote} (${describeTarget(prepared.context)}).${changeNote}${navigation} Prompt ~${estimateTokens(rendered.prompt)} tokens.${redactionNote}${autoNote}${formatExportNote(exported)}\n${formatSessionIdLine(outcome.sessionId)}${formatWarningsNote(warnings)}`;
+}
+
+/** Writes the rendered prompt and a redacted JSON sidecar of the handoff arguments. */
+function exportHandoff(
+  pluginCtx: PluginContext,
+  prepared: PreparedHandoff,
+  rendered: RenderedPrompt,
+  sessionId?: string,
+): ExportResult {
+  const { context, promptOptions } = prepared;
+  const sidecar: HandoffFile = {
+    version: 1,
+    title: prepared.title,
+    exportedAt: new Date().toISOString(),
+    ...(sessionId && { sessionId }),
+    ...(context.agent && { agent: context.agent }),
+    ...(context.modelConfig && { model: context.modelConfig }),
+    handoff: prepared.handoffArgs,
+  };
+  const redacted = promptOptions.redact
+    ? redactValue(sidecar, promptOptions.redact).value
+    : sidecar;
+  return writeHandoffFiles(pluginCtx.directory, rendered.prompt, redacted);
+}
+
+/**
+ * Gathers the session context and renders nothing yet: returns the title,
+ * target and prompt inputs for `sendHandoff` or a preview, or an error string.
+ */
+export async function prepareHandoff(
+  pluginCtx: PluginContext,
+  args: HandoffToolArgs,
+  sessionID: string,
+): Promise<PreparedHandoff | string> {
+  const { config, client, directory } = pluginCtx;
+  const gathered = sessionID
+    ? await gatherSessionContext(pluginCtx.client, pluginCtx.directory, sessionID)
+    : { title: "Unknown", todos: [], messages: [], files: { modified: [], referenced: [] } };
+
+  const template = loadTemplate(directory, process.env, config.template);
+  if (!template.ok) return `Error: ${template.error}`;
+  const target = await resolveSessionTarget(client, directory, sessionID, args);
+  if (typeof target === "string") return target;
+  const retarget = await resolveRetarget(client, directory, {
+    previous: gathered,
+    request: args,
+    map: config.targetMap,
+  });
+  if (typeof retarget === "string") return retarget;
+  const context = { ...withCarryOver(gathered, config), ...retarget };
+
+  return {
+    sessionID,
+    args,
+    context,
+    title:
+      target.kind === "existing" ? target.title : formatTitle(config.titleFormat, context.title),
+    target,
+    changes: describeChanges(gathered, context),
+    handoffArgs: buildHandoffArgs(args, sessionID, context),
+    promptOptions: {
+      tokenBudget: readTokenBudget(config.tokenBudget),
+      template: template.nodes,
+      redact: createRedactor(config.redaction),
+    },
+  };
+}
+
+/** Re-derives the handoff with `overrides` replacing the matching arguments. */
+export function applyOverrides(
+  prepared: PreparedHandoff,
+  overrides: HandoffToolArgs,
+): PreparedHandoff {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+  const args = { ...prepared.args, ...defined };
+  return {
+    ...prepared,
+    args,
+    handoffArgs: buildHandoffArgs(args, prepared.sessionID, prepared.context),
+  };
+}
+
+/** The prompt as it will be sent, assuming open todos can be restored if the todo storage exists. */
+export function renderPreviewPrompt(prepared: PreparedHandoff): RenderedPrompt {
+  const { handoffArgs } = prepared;
+  const restored = handoffArgs.todos && canRestoreTodos(handoffArgs.todos);
+  return renderHandoffPrompt(
+    { ...handoffArgs, ...(restored !== undefined && { todos_restored: restored }) },
+    prepared.promptOptions,
+  );
+}
+
+/** Redacts a prompt that was not rendered from handoff arguments, e.g. one the user wrote. */
+function redactPrompt(prompt: string, redact: Redactor | null | undefined): RenderedPrompt {
+  if (!redact) return { prompt, redactions: 0 };
+  const redacted = redact(prompt);
+  return { prompt: redacted.text, redactions: redacted.count };
+}
+
+function renderFinalPrompt(
+  prepared: PreparedHandoff,
+  handoffArgs: HandoffArgs,
+  promptOverride?: string,
+): RenderedPrompt {
+  if (promptOverride === undefined) return renderHandoffPrompt(handoffArgs, prepared.promptOptions);
+  return redactPrompt(promptOverride, prepared.promptOptions.redact);
+}
+
+export type SendResult = { ok: true; message: string } | { ok: false; error: string };
+
+/**
+ * Creates the session, or picks the existing target, and sends the prompt.
+ * `promptOverride` replaces the rendered prompt, e.g. after the user edited a
+ * preview; it is still redacted. Todos are only restored into new sessions,
+ * so an existing session's own list is left alone.
+ */
+export async function sendHandoff(
+  pluginCtx: PluginContext,
+  prepared: PreparedHandoff,
+  promptOverride?: string,
+): Promise<SendResult> {
+  const { config } = pluginCtx;
+  const { context, title, target } = prepared;
+  const warnings = checkHandoffQuality(pluginCtx, prepared);
+  const blocked = blockedByQuality(pluginCtx, warnings);
+  if (blocked) return { ok: false, error: blocked };
+  const sessionId = await openSessionTarget(pluginCtx.client, pluginCtx.directory, title, target);
+  if (!sessionId) return { ok: false, error: "Failed to create session" };
+
+  const handoffArgs = { ...prepared.handoffArgs };
+  if (handoffArgs.todos && target.kind === "new")
+    handoffArgs.todos_restored = restoreTodos(sessionId, handoffArgs.todos);
+  const rendered = renderFinalPrompt(prepared, handoffArgs, promptOverride);
+  await promptSession({
+    client: pluginCtx.client,
+    directory: pluginCtx.directory,
+    sessionId,
+    context,
+    handoffPrompt: rendered.prompt,
+  });
+
+  recordHandoff(pluginCtx, {
+    handoff: handoffArgs,
+    context,
+    sessionId,
+    title,
+    prompt: rendered.prompt,
+  });
+  const exported = prepared.args.export
+    ? exportHandoff(pluginCtx, { ...prepared, handoffArgs }, rendered, sessionId)
+    : null;
+
+  const navigation = await navigateToSession(pluginCtx.client, pluginCtx.directory, {
+    action: resolveNavigateAction(prepared.args, config),
+    sessionId,
+    title,
+  });
+
+  const outcome = { sessionId, rendered, navigation, exported, warnings };
+  return { ok: true, message: formatHandoffResult(prepared, outcome) };
+}
+
+export async function executeHandoff(
+  pluginCtx: PluginContext,
+  args: HandoffToolArgs,
+  sessionID: string,
+): Promise<string> {
+  const prepared = await prepareHandoff(pluginCtx, args, sessionID);
+  if (typeof prepared === "string") return prepared;
+  const result = await sendHandoff(pluginCtx, prepared);
+  return result.ok ? result.message : result.error;
+}
+
+/** Exports the handoff to `.opencode/handoffs/` without creating a session. */
+export async function executeExport(
+  pluginCtx: PluginContext,
+  args: HandoffToolArgs,
+  sessionID: string,
+): Promise<string> {
+  const prepared = await prepareHandoff(pluginCtx, args, sessionID);
+  if (typeof prepared === "string") return prepared;
+  const warnings = checkHandoffQuality(pluginCtx, prepared);
+  const blocked = blockedByQuality(pluginCtx, warnings);
+  if (blocked) return blocked;
+  const rendered = renderHandoffPrompt(prepared.handoffArgs, prepared.promptOptions);
+  const exported = exportHandoff(pluginCtx, prepared, rendered);
+  if (!exported.ok) return `Failed to export handoff: ${exported.error}`;
+  const redactionNote = rendered.redactions ? ` ${formatRedactionCount(rendered.redactions)}.` : "";
+  return `✓ Exported "${prepared.title}" to ${exported.file} with a .json sidecar. Prompt ~${estimateTokens(rendered.prompt)} tokens.${redactionNote} Start a session from it with handoff_import.${formatWarningsNote(warnings)}`;
+}
+
+/**
+ * Records an import as a handoff from the exported session's previous session.
+ * A prompt without a sidecar does not say which chain it belongs to.
+ */
+function recordImport(
+  pluginCtx: PluginContext,
+  sidecar: HandoffFile | null,
+  session: Omit<RecordParams, "handoff" | "context">,
+): void {
+  if (!sidecar) return;
+  const { handoff } = sidecar;
+  const files = { modified: [], referenced: [] };
+  const context = { title: session.title, todos: handoff.todos ?? [], messages: [], files };
+  recordHandoff(pluginCtx, { ...session, handoff, context });
+}
+
+/**
+ * Starts a session from an exported handoff, on the default agent and model
+ * since the exporting machine's may not exist here.
+ */
+export async function executeImport(pluginCtx: PluginContext, file: string): Promise<string> {
+  const { config } = pluginCtx;
+  const loaded = readHandoffFiles(pluginCtx.directory, file, {
+    tokenBudget: readTokenBudget(config.tokenBudget),
+  });
+  if (!loaded.ok) return `Error: ${loaded.error}`;
+  const { sidecar } = loaded;
+  const title =
+    sidecar?.title ?? formatTitle(config.titleFormat, path.basename(loaded.file, ".md"));
+  const sessionId = await openSessionTarget(pluginCtx.client, pluginCtx.directory, title, {
+    kind: "new",
+  });
+  if (!sessionId) return "Failed to create session";
+
+  const todos = sidecar?.handoff.todos;
+  const restored = todos ? restoreTodos(sessionId, todos) : false;
+  const rendered = redactPrompt(loaded.prompt, createRedactor(config.redaction));
+  await promptSession({
+    client: pluginCtx.client,
+    directory: pluginCtx.directory,
+    sessionId,
+    context: { title, todos: [], messages: [], files: { modified: [], referenced: [] } },
+    handoffPrompt: rendered.prompt,
+  });
+  recordImport(pluginCtx, sidecar, { sessionId, title, prompt: rendered.prompt });
+  const navigation = await navigateToSession(pluginCtx.client, pluginCtx.directory, {
+    action: resolveNavigateAction({}, config),
+    sessionId,
+    title,
+  });
+
+  const todosNote = restored ? " Open todos restored." : "";
+  const redactionNote = rendered.redactions ? ` ${formatRedactionCount(rendered.redactions)}.` : "";
+  return `✓ Session "${title}" created from ${loaded.file}.${navigation}${todosNote}${redactionNote}\n${formatSessionIdLine(sessionId)}`;
+}
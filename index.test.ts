@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { buildHandoffPrompt, type HandoffArgs } from "./prompt.ts";
+import { buildHandoffPrompt, estimateTokens, type HandoffArgs } from "./prompt.ts";
+import { parseTemplate, TEMPLATE_PRESETS } from "./template.ts";
 
 const baseArgs: HandoffArgs = {
   previousSessionId: "ses_123",
@@ -58,8 +59,27 @@ describe("buildHandoffPrompt - todos", () => {
     expect(result).toContain("In progress: Task 2");
     expect(result).toContain("Pending: Task 3");
   });
+
+  const openTodos = [
+    { content: "Task 2", status: "in_progress", priority: "high" },
+    { content: "Task 3", status: "pending", priority: "medium" },
+  ];
+
+  it("notes todos carried into the new session", () => {
+    const result = build({ todos: openTodos, todos_restored: true });
+    expect(result).toContain("In progress: Task 2 (high)");
+    expect(result).toContain("Pending: Task 3");
+    expect(result).toContain("Already in your todo list");
+  });
+
+  it("asks to recreate todos that could not be carried over", () => {
+    const result = build({ todos: openTodos, todos_restored: false });
+    expect(result).toContain("Recreate these with todowrite");
+  });
 });
 
+const tenFiles = Array.from({ length: 10 }, (_, i) => `file${i}.ts`);
+
 describe("buildHandoffPrompt - files", () => {
   it("includes modified files", () => {
     const result = build({ modified_files: ["src/index.ts", "src/utils.ts"] });
@@ -67,6 +87,22 @@ describe("buildHandoffPrompt - files", () => {
     expect(result).toContain("src/index.ts, src/utils.ts");
   });
 
+  it("includes referenced files with counts", () => {
+    const result = build({
+      modified_files: ["src/a.ts"],
+      reference_files: ["src/b.ts"],
+      file_counts: { "src/a.ts": 3, "src/b.ts": 1 },
+    });
+    expect(result).toContain("**Files:** src/a.ts ×3");
+    expect(result).toContain("**Referenced:** src/b.ts");
+  });
+
+  it("caps long file lists", () => {
+    const result = build({ modified_files: tenFiles });
+    expect(result).toContain("file7.ts, +2 more");
+    expect(result).not.toContain("file8.ts");
+  });
+
   it("excludes files section when empty", () => {
     expect(build({ modified_files: [] })).not.toContain("**Files:**");
   });
@@ -95,3 +131,186 @@ describe("buildHandoffPrompt - next steps", () => {
     expect(build({ next_steps: [] })).not.toContain("**Next:**");
   });
 });
+
+describe("buildHandoffPrompt - tried & failed and preferences", () => {
+  it("lists failed approaches with their reasons", () => {
+    const result = build({
+      tried_failed: [
+        { approach: "Mocking fetch globally", why_failed: "breaks the SDK client" },
+        { approach: "Bumping vitest", why_failed: "" },
+      ],
+    });
+    expect(result).toContain("**Tried & failed (don't retry):**");
+    expect(result).toContain("- Mocking fetch globally: breaks the SDK client");
+    expect(result).toContain("- Bumping vitest\n");
+  });
+
+  it("lists user preferences", () => {
+    const result = build({ user_prefs: ["No new dependencies", "Keep commits small"] });
+    expect(result).toContain("**User preferences:**\n- No new dependencies\n- Keep commits small");
+  });
+
+  it("excludes both sections when empty", () => {
+    const result = build();
+    expect(result).not.toContain("Tried & failed");
+    expect(result).not.toContain("User preferences");
+  });
+});
+
+describe("buildHandoffPrompt - summary", () => {
+  it("marks auto-generated summaries", () => {
+    const result = build({ summary: "Last request: fix tests", summary_auto: true });
+    expect(result).toContain("_Auto-generated summary");
+    expect(result).toContain("Last request: fix tests");
+  });
+
+  it("does not mark summaries written by the model", () => {
+    expect(build()).not.toContain("Auto-generated");
+  });
+});
+
+describe("buildHandoffPrompt - git", () => {
+  const git = {
+    branch: "main",
+    head: "abc1234",
+    ahead: 1,
+    behind: 0,
+    staged: 1,
+    unstaged: 2,
+    untracked: 0,
+    diffStat: [" src/a.ts | 3 ++-", " 1 file changed, 2 insertions(+), 1 deletion(-)"],
+  };
+
+  it("includes branch, head and change counts", () => {
+    const result = build({ git });
+    expect(result).toContain("**Git:** main @ abc1234 (ahead 1, behind 0) · 1 staged, 2 unstaged");
+    expect(result).toContain(" src/a.ts | 3 ++-");
+  });
+
+  it("reports a clean tree", () => {
+    const clean = { ...git, ahead: 0, staged: 0, unstaged: 0, diffStat: [] };
+    expect(build({ git: clean })).toContain("**Git:** main @ abc1234 · clean");
+  });
+
+  it("excludes git section outside a repository", () => {
+    expect(build()).not.toContain("**Git:**");
+  });
+});
+
+describe("buildHandoffPrompt - token budget", () => {
+  const steps = Array.from({ length: 6 }, (_, i) => `Step number ${i + 1} with some detail`);
+  const decisions = Array.from({ length: 6 }, (_, i) => ({
+    decision: `Decision ${i + 1} about the architecture`,
+    reason: "",
+  }));
+  const large = {
+    goal: "Ship the login feature",
+    next_steps: steps,
+    decisions,
+    modified_files: tenFiles,
+  };
+
+  it("estimates tokens from length", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+
+  it("leaves the prompt untouched without a budget", () => {
+    const result = build(large);
+    expect(result).toContain("6. Step number 6");
+    expect(result).toContain("Decision 6 about the architecture");
+  });
+
+  it("trims lower-priority sections first", () => {
+    const full = build(large);
+    const budget = estimateTokens(full) - 40;
+    const trimmed = buildHandoffPrompt({ ...baseArgs, ...large }, { tokenBudget: budget });
+    expect(estimateTokens(trimmed)).toBeLessThanOrEqual(budget);
+    expect(trimmed).toContain("**Files:**");
+    expect(trimmed).toContain("more");
+    expect(trimmed).toContain("6. Step number 6");
+  });
+
+  it("never drops failed approaches or preferences", () => {
+    const result = buildHandoffPrompt(
+      {
+        ...baseArgs,
+        tried_failed: [{ approach: "Raising the timeout", why_failed: "still flaky" }],
+        user_prefs: ["Use pnpm"],
+        next_steps: ["Step one", "Step two"],
+      },
+      { tokenBudget: 10 },
+    );
+    expect(result).toContain("Raising the timeout: still flaky");
+    expect(result).toContain("- Use pnpm");
+  });
+
+  it("never drops the goal, even when the budget cannot be met", () => {
+    const trimmed = buildHandoffPrompt({ ...baseArgs, ...large }, { tokenBudget: 1 });
+    expect(trimmed).toContain("**Goal:** Ship the login feature");
+    expect(trimmed).toContain("**Next:** +6 more");
+    expect(trimmed).toContain("**Decisions:** +6 more");
+  });
+});
+
+const fortySteps = Array.from({ length: 40 }, (_, i) => `Step number ${i} with some detail`);
+
+describe("buildHandoffPrompt - templates", () => {
+  function parse(source: string) {
+    const parsed = parseTemplate(source);
+    if (!parsed.ok) throw new Error(parsed.error);
+    return parsed.nodes;
+  }
+
+  it("renders through the template and keeps the Previous footer", () => {
+    const template = parse(
+      "# {{goal}}\n{{#next_steps_checklist}}\n{{next_steps_checklist}}\n{{/next_steps_checklist}}\nDone when: tests pass\n",
+    );
+    const result = buildHandoffPrompt(
+      { ...baseArgs, goal: "PROJ-42", next_steps: ["Write tests"] },
+      { template },
+    );
+    expect(result).toContain("# PROJ-42\n- [ ] Write tests\nDone when: tests pass");
+    expect(result).not.toContain("## Session Handoff");
+    expect(result).toContain("Previous: `ses_123`");
+  });
+
+  it("renders every preset without leftover tags", () => {
+    for (const source of Object.values(TEMPLATE_PRESETS)) {
+      const result = buildHandoffPrompt(
+        { ...baseArgs, todos: [{ content: "Fix bug", status: "in_progress" }] },
+        { template: parse(source) },
+      );
+      expect(result).toContain(baseArgs.summary);
+      expect(result).not.toContain("{{");
+    }
+  });
+
+  it("carries the todo follow-up line into every preset", () => {
+    const todos = [{ content: "Fix bug", status: "in_progress" }];
+    for (const source of Object.values(TEMPLATE_PRESETS)) {
+      const template = parse(source);
+      const recreate = buildHandoffPrompt(
+        { ...baseArgs, todos, todos_restored: false },
+        { template },
+      );
+      expect(recreate).toContain("- [ ] **In progress:** Fix bug");
+      expect(recreate).toContain("Recreate these with todowrite");
+      const restored = buildHandoffPrompt(
+        { ...baseArgs, todos, todos_restored: true },
+        { template },
+      );
+      expect(restored).toContain("Already in your todo list");
+    }
+  });
+
+  it("trims template lists to the token budget", () => {
+    const result = buildHandoffPrompt(
+      { ...baseArgs, next_steps: fortySteps },
+      { template: parse(TEMPLATE_PRESETS.minimal ?? ""), tokenBudget: 150 },
+    );
+    expect(estimateTokens(result)).toBeLessThanOrEqual(150);
+    expect(result).toContain("more");
+  });
+});
@@ -1,313 +1,271 @@
-import type { Plugin, PluginInput } from "@opencode-ai/plugin";
-import type { Message, Part } from "@opencode-ai/sdk";
-import { buildHandoffPrompt } from "./prompt.ts";
+import { tool, type Plugin } from "@opencode-ai/plugin";
+import { executeReadSession, redactOutput } from "./read-session.ts";
+import { executeSearchSession } from "./search-session.ts";
+import { formatHandoffHistory, readHandoffRecords } from "./ledger.ts";
+import {
+  appendLookupEvent,
+  computeHandoffStats,
+  formatHandoffStats,
+  readLookupEvents,
+  type LookupEvent,
+} from "./metrics.ts";
+import {
+  handoffArgsShape,
+  handoffConfirmArgsShape,
+  handoffExportArgsShape,
+  handoffHistoryArgsShape,
+  handoffImportArgsShape,
+  handoffStatsArgsShape,
+  readSessionArgsShape,
+  searchSessionArgsShape,
+  validateHandoffArgs,
+  validateHandoffConfirmArgs,
+  validateHandoffExportArgs,
+  validateHandoffHistoryArgs,
+  validateHandoffImportArgs,
+  validateHandoffStatsArgs,
+  validateReadSessionArgs,
+  validateSearchSessionArgs,
+} from "./args.ts";
 import { createAutoUpdateHook } from "./auto-update.ts";
+import { createHandoffCommandHook } from "./command.ts";
+import { createContextWatchHook, readAutoHandoffOptions } from "./context-watch.ts";
+import { loadConfig, reportConfigErrors } from "./config.ts";
+import {
+  checkHandoffQuality,
+  executeExport,
+  executeHandoff,
+  executeImport,
+  prepareHandoff,
+  type PluginContext,
+} from "./handoff.ts";
+import { confirmPreview, createPreviewStore, formatPreview, type PreviewStore } from "./preview.ts";
+import { createRedactor } from "./redact.ts";
+
+function createHandoffTool(pluginCtx: PluginContext, previews: PreviewStore) {
+  return tool({
+    description: `Generate a compact continuation prompt and start a new session with it.
 
-type PluginClient = PluginInput["client"];
-
-interface PluginContext {
-  directory: string;
-  client: PluginClient;
-  serverUrl: URL;
-}
+When called, this tool:
+1. Uses YOUR summary of what was accomplished (falls back to an auto-generated one if omitted)
+2. Auto-fetches todo state from current session
+3. Creates a new session with a compact, token-budgeted handoff prompt
+4. Opens the session picker (or switches to the session, or shows a toast, per the \`navigate\` option) unless running headless
+5. Returns the new session ID on a \`session_id:\` line
 
-interface Todo {
-  content: string;
-  status: string;
-}
+IMPORTANT: You SHOULD provide a concise summary; the auto-generated fallback is much less useful. Do not dump the entire conversation - distill it to essential context only.
 
-interface ModelConfig {
-  providerID: string;
-  modelID: string;
-}
+If the user said "handoff <something>" or "session_handoff <something>", pass what comes after as \`goal\`. List arguments (next_steps, files_modified, ...) must be JSON arrays, not strings.
 
-interface SessionContext {
-  title: string;
-  todos: Todo[];
-  modelConfig?: ModelConfig;
-  agent?: string;
-}
+Pass \`dry_run: true\` to show the prompt, title, agent and model to the user first; nothing is created until \`handoff_confirm\` is called with the returned preview ID. Pass \`export: true\` to also write the handoff to .opencode/handoffs/.
 
-interface MessageWithParts {
-  info: Message;
-  parts: Part[];
-}
+Pass \`agent\` and/or \`model\` ("provider/model") to start the new session on a different agent or model, e.g. agent "build" when moving from planning to implementation.
 
-async function fetchSessionTitle(
-  client: PluginClient,
-  sessionId: string,
-  directory: string,
-): Promise<string> {
-  try {
-    const result = await client.session.get({
-      path: { id: sessionId },
-      query: { directory },
-    });
-    return result?.data?.title || "Unknown";
-  } catch {
-    return "Unknown";
-  }
-}
+To continue in an existing session instead of a new one (e.g. "handoff into main"), pass its ID or title as \`into\`. Pass \`fork: true\` to create the new session as a child of this one.
 
-function extractModelFromMessage(msg: Message | undefined): {
-  modelConfig?: ModelConfig;
-  agent?: string;
-} {
-  if (!msg) return {};
-  if (msg.role !== "assistant") return {};
-  const out: { modelConfig?: ModelConfig; agent?: string } = {};
-  if (msg.providerID && msg.modelID) {
-    out.modelConfig = { providerID: msg.providerID, modelID: msg.modelID };
-  }
-  if (msg.mode) out.agent = msg.mode;
-  return out;
-}
+The handoff is checked before it is sent: the result lists quality warnings (thin summary, missing next steps, unmentioned in-progress todos, nonexistent files, a goal unrelated to the summary). In strict mode it is refused until they are fixed.
 
-async function fetchModelConfig(
-  client: PluginClient,
-  sessionId: string,
-  directory: string,
-): Promise<{ modelConfig?: ModelConfig; agent?: string }> {
-  try {
-    const result = await client.session.messages({
-      path: { id: sessionId },
-      query: { directory },
-    });
-    if (!result?.data || !Array.isArray(result.data)) return {};
-    const messages = result.data as MessageWithParts[];
-    const assistantMessages = messages.filter((m) => m.info.role === "assistant");
-    const lastAssistant = assistantMessages[assistantMessages.length - 1];
-    return extractModelFromMessage(lastAssistant?.info);
-  } catch {
-    return {};
-  }
+The new session will have access to \`read_session\` tool if more context is needed later.`,
+    args: handoffArgsShape,
+    async execute(args, ctx) {
+      const validated = validateHandoffArgs(args);
+      if (!validated.ok) return validated.error;
+      const { dry_run, ...handoffArgs } = validated.args;
+      if (!dry_run) return executeHandoff(pluginCtx, handoffArgs, ctx.sessionID);
+      const prepared = await prepareHandoff(pluginCtx, handoffArgs, ctx.sessionID);
+      if (typeof prepared === "string") return prepared;
+      const warnings = checkHandoffQuality(pluginCtx, prepared);
+      return formatPreview(previews.save(prepared), prepared, warnings);
+    },
+  });
 }
 
-async function fetchTodos(
-  client: PluginClient,
-  sessionId: string,
-  directory: string,
-): Promise<Todo[]> {
-  try {
-    const result = await client.session.todo({
-      path: { id: sessionId },
-      query: { directory },
-    });
-    return Array.isArray(result?.data) ? (result.data as Todo[]) : [];
-  } catch {
-    return [];
-  }
-}
+function createHandoffConfirmTool(pluginCtx: PluginContext, previews: PreviewStore) {
+  return tool({
+    description: `Send a handoff previewed with \`session_handoff\` and \`dry_run: true\`, creating the new session.
 
-async function gatherSessionContext(
-  pluginCtx: PluginContext,
-  sessionId: string,
-): Promise<SessionContext> {
-  const [title, modelResult, todos] = await Promise.all([
-    fetchSessionTitle(pluginCtx.client, sessionId, pluginCtx.directory),
-    fetchModelConfig(pluginCtx.client, sessionId, pluginCtx.directory),
-    fetchTodos(pluginCtx.client, sessionId, pluginCtx.directory),
-  ]);
-  const ctx: SessionContext = { title, todos };
-  if (modelResult.modelConfig) ctx.modelConfig = modelResult.modelConfig;
-  if (modelResult.agent) ctx.agent = modelResult.agent;
-  return ctx;
-}
-
-interface HandoffToolArgs {
-  summary: string;
-  next_steps?: string[];
-  blocked?: string;
-  key_decisions?: string[];
-  files_modified?: string[];
-  goal?: string;
+Only call this after the user has approved the preview. Any session_handoff argument passed here (summary, goal, next_steps, ...) replaces that part of the preview and the prompt is rendered again. \`prompt\` replaces the whole prompt with the user's edited text and takes precedence over the other arguments.`,
+    args: handoffConfirmArgsShape,
+    async execute(args) {
+      const validated = validateHandoffConfirmArgs(args);
+      if (!validated.ok) return validated.error;
+      return confirmPreview(pluginCtx, previews, validated.args);
+    },
+  });
 }
 
-interface CreateSessionParams {
-  client: PluginClient;
-  directory: string;
-  title: string;
-  context: SessionContext;
-  handoffPrompt: string;
-}
+function createHandoffExportTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Write a handoff to .opencode/handoffs/<timestamp>-<slug>.md in the project, with a .json sidecar of its arguments, without creating a session.
 
-async function createAndPromptSession(params: CreateSessionParams): Promise<string | null> {
-  const { client, directory, title, context, handoffPrompt } = params;
-  const newSession = await client.session.create({
-    query: { directory },
-    body: { title },
+Use it when the user wants to commit the handoff, attach it to a PR or continue on another machine. Takes the same arguments as session_handoff. Start a session from the file later with \`handoff_import\`.`,
+    args: handoffExportArgsShape,
+    async execute(args, ctx) {
+      const validated = validateHandoffExportArgs(args);
+      if (!validated.ok) return validated.error;
+      return executeExport(pluginCtx, validated.args, ctx.sessionID);
+    },
   });
-  const sessionId = newSession?.data?.id;
-  if (!sessionId) return null;
+}
 
-  const body: {
-    model?: ModelConfig;
-    agent?: string;
-    parts: Array<{ type: "text"; text: string }>;
-  } = { parts: [{ type: "text" as const, text: handoffPrompt }] };
-  if (context.modelConfig) body.model = context.modelConfig;
-  if (context.agent) body.agent = context.agent;
+function createHandoffImportTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Start a new session from a handoff exported with \`handoff_export\` or \`session_handoff\` with \`export: true\`.
 
-  await client.session.promptAsync({
-    path: { id: sessionId },
-    query: { directory },
-    body,
+Pass the .md or .json file (a path inside the project, or a file name in .opencode/handoffs/). The Markdown prompt is sent as is, so edits to it are kept.`,
+    args: handoffImportArgsShape,
+    async execute(args) {
+      const validated = validateHandoffImportArgs(args);
+      if (!validated.ok) return validated.error;
+      return executeImport(pluginCtx, validated.args.file);
+    },
   });
-  return sessionId;
 }
 
-function buildHandoffArgs(args: HandoffToolArgs, sessionID: string, todos: Todo[]) {
-  return {
-    previousSessionId: sessionID,
-    summary: args.summary,
-    blocked: args.blocked || "",
-    modified_files: args.files_modified || [],
-    reference_files: [] as string[],
-    decisions: (args.key_decisions || []).map((d) => ({
-      decision: d,
-      reason: "",
-    })),
-    tried_failed: [] as Array<{ approach: string; why_failed: string }>,
-    next_steps: args.next_steps || [],
-    user_prefs: [] as string[],
-    ...(todos.length > 0 && { todos }),
-    ...(args.goal && { goal: args.goal }),
-  };
-}
-
-async function executeHandoff(
+function recordLookup(
   pluginCtx: PluginContext,
-  args: HandoffToolArgs,
-  sessionID: string,
-): Promise<string> {
-  if (!args.summary?.trim()) {
-    return "Error: summary is required. Provide a 1-3 sentence summary of the current state.";
-  }
-
-  const context = sessionID
-    ? await gatherSessionContext(pluginCtx, sessionID)
-    : { title: "Unknown", todos: [] };
-
-  const handoffPrompt = buildHandoffPrompt(buildHandoffArgs(args, sessionID, context.todos));
-  const newTitle = `Handoff: ${context.title}`;
-
-  const sessionId = await createAndPromptSession({
-    client: pluginCtx.client,
-    directory: pluginCtx.directory,
-    title: newTitle,
-    context,
-    handoffPrompt,
-  });
-
-  if (!sessionId) return "Failed to create session";
-
-  await pluginCtx.client.tui.openSessions({
-    query: { directory: pluginCtx.directory },
-  });
-
-  const model = context.modelConfig;
-  const modelDisplay = model ? `${model.providerID}/${model.modelID}` : "default model";
-  return `✓ Session "${newTitle}" created (${context.agent || "default"} · ${modelDisplay}). Select it from the picker.`;
+  toolName: LookupEvent["tool"],
+  sessionId: string,
+): void {
+  if (!pluginCtx.config.metrics.enabled) return;
+  appendLookupEvent({ tool: toolName, sessionId, timestamp: new Date().toISOString() });
 }
 
-function createHandoffTool(pluginCtx: PluginContext) {
-  return {
-    description: `Generate a compact continuation prompt and start a new session with it.
-
-When called, this tool:
-1. Uses YOUR summary of what was accomplished (required)
-2. Auto-fetches todo state from current session
-3. Creates a new session with a minimal handoff prompt (~100-200 tokens)
-4. Returns the new session ID
-
-IMPORTANT: You MUST provide a concise summary. Do not dump the entire conversation - distill it to essential context only.
+function createReadSessionTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Read messages from the session this one was handed off from to get additional context.
 
-Arguments (pass as JSON object):
-- summary (required): 1-3 sentence summary of current state
-- goal (optional): If the user said "handoff <something>" or "session_handoff <something>", extract what comes after as the goal for the next session
-- next_steps (optional): Array of remaining tasks
-- blocked (optional): Current blocker if any
-- key_decisions (optional): Array of important decisions made
-- files_modified (optional): Array of key files changed
+USE SPARINGLY - only when:
+- User explicitly asks to "load more context" or "read previous session"
+- You encounter something from the handoff that needs clarification
+- You need specific details not captured in the handoff summary
 
-The new session will have access to \`read_session\` tool if more context is needed later.`,
-    args: {},
-    async execute(args: Record<string, unknown>, ctx: { sessionID: string }) {
-      return executeHandoff(pluginCtx, args as unknown as HandoffToolArgs, ctx.sessionID);
+By default this reads the previous session named in the handoff footer (use \`hops\` to go further back along the handoff chain) and returns its last 20 text messages (configurable), which uses significant tokens. Narrow the window with offset/limit and the role/part filters; add "tool" to part_types to see which commands ran and how they failed. The handoff summary should be sufficient for most continuations.`,
+    args: readSessionArgsShape,
+    async execute(args, ctx) {
+      const validated = validateReadSessionArgs(args);
+      if (!validated.ok) return validated.error;
+      recordLookup(pluginCtx, "read_session", ctx.sessionID);
+      return executeReadSession(
+        {
+          ...pluginCtx,
+          limits: pluginCtx.config.readSession,
+          redact: createRedactor(pluginCtx.config.redaction),
+        },
+        validated.args,
+        ctx.sessionID,
+      );
     },
-  };
+  });
 }
 
-async function executeReadSession(
-  pluginCtx: { directory: string; client: PluginClient },
-  sessionID: string,
-): Promise<string> {
-  if (!sessionID) {
-    return "No session ID available";
-  }
-
-  try {
-    const messagesResult = await pluginCtx.client.session.messages({
-      path: { id: sessionID },
-      query: { directory: pluginCtx.directory },
-    });
-
-    if (!messagesResult?.data || !Array.isArray(messagesResult.data)) {
-      return "No messages found";
-    }
-
-    const messages = (messagesResult.data as MessageWithParts[]).slice(-20);
-    const formatted = messages.map((msg) => {
-      const role = msg.info.role || "unknown";
-      const textParts = msg.parts.filter(
-        (p): p is Part & { type: "text"; text: string } => p.type === "text",
+function createSearchSessionTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Search the messages of the session this one was handed off from, or of the whole handoff chain, for text or a regular expression.
+
+Returns each match as a short snippet with its session ID and message index. Prefer this over \`read_session\` when you are looking for a specific decision, error message or file name; then read around a match with \`read_session\`.`,
+    args: searchSessionArgsShape,
+    async execute(args, ctx) {
+      const validated = validateSearchSessionArgs(args);
+      if (!validated.ok) return validated.error;
+      recordLookup(pluginCtx, "search_session", ctx.sessionID);
+      return executeSearchSession(
+        { ...pluginCtx, redact: createRedactor(pluginCtx.config.redaction) },
+        validated.args,
+        ctx.sessionID,
       );
-      const content = textParts.map((p) => p.text || "").join("\n") || "[no text content]";
-      return `[${role}]: ${content.slice(0, 2000)}${content.length > 2000 ? "..." : ""}`;
-    });
-
-    return `Messages (last ${messages.length}):\n\n${formatted.join("\n\n---\n\n")}`;
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    return `Failed to read session: ${errorMsg}`;
-  }
+    },
+  });
 }
 
-function createReadSessionTool(pluginCtx: { directory: string; client: PluginClient }) {
-  return {
-    description: `Read messages from the previous session to get additional context.
-
-USE SPARINGLY - only when:
-- User explicitly asks to "load more context" or "read previous session"
-- You encounter something from the handoff that needs clarification
-- You need specific details not captured in the handoff summary
+function createHandoffHistoryTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Show the chain of handoffs that led to this session: each hop's session IDs, time, title, goal, summary and todo progress, back to where the work started. Also lists sessions this one was handed off to.
+
+Use it to find an older session ID to pass to \`read_session\`.`,
+    args: handoffHistoryArgsShape,
+    async execute(args, ctx) {
+      const validated = validateHandoffHistoryArgs(args);
+      if (!validated.ok) return validated.error;
+      const sessionId = validated.args.session_id || ctx.sessionID;
+      // Ledger entries written before redaction covered them can still hold secrets.
+      const history = formatHandoffHistory(readHandoffRecords(), sessionId);
+      return redactOutput(history, createRedactor(pluginCtx.config.redaction));
+    },
+  });
+}
 
-This tool fetches the last 20 messages which uses significant tokens. The handoff summary should be sufficient for most continuations.`,
-    args: {},
-    async execute(_args: Record<string, unknown>, ctx: { sessionID: string }) {
-      return executeReadSession(pluginCtx, ctx.sessionID);
+function createHandoffStatsTool(pluginCtx: PluginContext) {
+  return tool({
+    description: `Report local metrics on handoffs: how many per project, prompt size, how full the previous session's context was when it handed off, how often the new session had to call read_session, and the time between handoffs.
+
+Use it when the user asks how handoffs are going, whether summaries are good enough, or when to hand off. Covers this project unless \`all_projects\` is set.`,
+    args: handoffStatsArgsShape,
+    async execute(args) {
+      const validated = validateHandoffStatsArgs(args);
+      if (!validated.ok) return validated.error;
+      const { all_projects, days } = validated.args;
+      const stats = computeHandoffStats(readHandoffRecords(), readLookupEvents(), {
+        directory: all_projects ? undefined : pluginCtx.directory,
+        days,
+      });
+      const scope = `${all_projects ? "all projects" : pluginCtx.directory}${days ? ` in the last ${days} days` : ""}`;
+      return formatHandoffStats(stats, scope);
     },
-  };
+  });
 }
 
 const HandoffPlugin: Plugin = async (ctx) => {
-  const autoUpdateHook = createAutoUpdateHook({
+  const { config, errors: configErrors } = loadConfig(ctx.directory);
+  const pluginCtx: PluginContext = {
     directory: ctx.directory,
     client: ctx.client,
-  });
+    serverUrl: ctx.serverUrl,
+    config,
+  };
+  const autoUpdateHook =
+    config.autoUpdate.policy === "off"
+      ? null
+      : createAutoUpdateHook({
+          directory: ctx.directory,
+          client: ctx.client,
+          options: config.autoUpdate,
+        });
+  const contextWatchHook = createContextWatchHook(
+    { directory: ctx.directory, client: ctx.client },
+    readAutoHandoffOptions(process.env, config.contextWatch),
+    (sessionID, args) => executeHandoff(pluginCtx, args, sessionID),
+  );
+  const commandHook = createHandoffCommandHook(config.command);
+  const previews = createPreviewStore();
+  let configReported = false;
 
   return {
-    event: autoUpdateHook.event,
+    config: commandHook.config,
+    "chat.message": async (input, output) => {
+      await commandHook.chatMessage(input.sessionID, output.parts);
+    },
+    "tool.execute.before": async (input, output) => {
+      commandHook.toolBefore(input.tool, input.sessionID, output.args);
+    },
+    event: async (input) => {
+      // The first event of any kind: the TUI may not be listening yet while the plugin loads.
+      if (!configReported) {
+        configReported = true;
+        await reportConfigErrors(ctx.client, configErrors);
+      }
+      await autoUpdateHook?.event(input);
+      await contextWatchHook.event(input);
+    },
     tool: {
-      session_handoff: createHandoffTool({
-        directory: ctx.directory,
-        client: ctx.client,
-        serverUrl: ctx.serverUrl,
-      }),
-      read_session: createReadSessionTool({
-        directory: ctx.directory,
-        client: ctx.client,
-      }),
+      session_handoff: createHandoffTool(pluginCtx, previews),
+      handoff_confirm: createHandoffConfirmTool(pluginCtx, previews),
+      handoff_export: createHandoffExportTool(pluginCtx),
+      handoff_import: createHandoffImportTool(pluginCtx),
+      read_session: createReadSessionTool(pluginCtx),
+      search_session: createSearchSessionTool(pluginCtx),
+      handoff_history: createHandoffHistoryTool(pluginCtx),
+      handoff_stats: createHandoffStatsTool(pluginCtx),
     },
   };
 };
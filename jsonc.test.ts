@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { parseJsonc, removeJsoncProperty, setJsoncValue } from "./jsonc.ts";
+
+const config = `{
+  // plugins
+  "plugin": [
+    "other-plugin", /* keep */
+    "opencode-session-handoff@1.0.0",
+  ],
+  "theme": "dark [not an array]",
+}
+`;
+
+const missingComma = () => parseJsonc('{\n  "a": 1\n  "b": 2\n}');
+const unbalanced = () => parseJsonc('{"a": [1, 2}');
+
+describe("parseJsonc", () => {
+  it("allows comments and trailing commas but leaves strings alone", () => {
+    expect(parseJsonc(config)).toEqual({
+      plugin: ["other-plugin", "opencode-session-handoff@1.0.0"],
+      theme: "dark [not an array]",
+    });
+    expect(parseJsonc(`{"url": "https://example.com/*x*/"}`)).toEqual({
+      url: "https://example.com/*x*/",
+    });
+  });
+
+  it("reports syntax errors with a line number", () => {
+    expect(missingComma).toThrow(/line 3/);
+    expect(unbalanced).toThrow(SyntaxError);
+  });
+});
+
+describe("setJsoncValue", () => {
+  it("replaces only the targeted value", () => {
+    const updated = setJsoncValue(config, ["plugin", 1], "opencode-session-handoff@1.1.0");
+    expect(updated).toBe(config.replace("@1.0.0", "@1.1.0"));
+    expect(setJsoncValue(config, ["missing"], 1)).toBeNull();
+  });
+});
+
+describe("removeJsoncProperty", () => {
+  it("removes a property line with its comma, keeping comments and formatting", () => {
+    const pkg = `{\n  "dependencies": {\n    "a": "1.0.0", // first\n    "b": "2.0.0"\n  }\n}\n`;
+    expect(removeJsoncProperty(pkg, ["dependencies", "b"])).toBe(
+      `{\n  "dependencies": {\n    "a": "1.0.0" // first\n  }\n}\n`,
+    );
+    expect(removeJsoncProperty(config, ["theme"])).toBe(config.replace(/ {2}"theme".*\n/, ""));
+    expect(removeJsoncProperty(pkg, ["dependencies", "c"])).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+export type JsoncNode =
+  | { type: "object"; start: number; end: number; properties: JsoncProperty[] }
+  | { type: "array"; start: number; end: number; items: JsoncNode[] }
+  | { type: "value"; start: number; end: number; value: string | number | boolean | null };
+
+export interface JsoncProperty {
+  key: string;
+  keyStart: number;
+  value: JsoncNode;
+}
+
+type JsoncPath = Array<string | number>;
+
+interface ParseState {
+  text: string;
+  pos: number;
+}
+
+function fail(state: ParseState, message: string): never {
+  const line = state.text.slice(0, state.pos).split("\n").length;
+  throw new SyntaxError(`${message} at line ${line}`);
+}
+
+/** Skips whitespace and `//` / block comments. */
+function skipTrivia(state: ParseState): void {
+  const { text } = state;
+  while (state.pos < text.length) {
+    if (/\s/.test(text[state.pos] ?? "")) state.pos++;
+    else if (text.startsWith("//", state.pos)) {
+      const newline = text.indexOf("\n", state.pos);
+      state.pos = newline === -1 ? text.length : newline;
+    } else if (text.startsWith("/*", state.pos)) {
+      const close = text.indexOf("*/", state.pos + 2);
+      if (close === -1) fail(state, "Unterminated comment");
+      state.pos = close + 2;
+    } else return;
+  }
+}
+
+function parseString(state: ParseState): string {
+  const start = state.pos;
+  state.pos++;
+  while (state.pos < state.text.length && state.text[state.pos] !== '"') {
+    state.pos += state.text[state.pos] === "\\" ? 2 : 1;
+  }
+  if (state.pos >= state.text.length) fail(state, "Unterminated string");
+  state.pos++;
+  return JSON.parse(state.text.slice(start, state.pos)) as string;
+}
+
+function parseLiteral(state: ParseState): JsoncNode {
+  const match = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+    state.text.slice(state.pos),
+  );
+  if (!match) fail(state, "Unexpected token");
+  const start = state.pos;
+  state.pos += match[0].length;
+  const value = JSON.parse(match[0]) as number | boolean | null;
+  return { type: "value", start, end: state.pos, value };
+}
+
+/** Parses comma-separated entries up to `close`, allowing a trailing comma. */
+function parseList(state: ParseState, close: string, parseEntry: () => void): void {
+  state.pos++;
+  skipTrivia(state);
+  while (state.text[state.pos] !== close) {
+    if (state.pos >= state.text.length) fail(state, `Expected "${close}"`);
+    parseEntry();
+    skipTrivia(state);
+    if (state.text[state.pos] === ",") {
+      state.pos++;
+      skipTrivia(state);
+    } else if (state.text[state.pos] !== close) fail(state, `Expected "," or "${close}"`);
+  }
+  state.pos++;
+}
+
+function parseObject(state: ParseState): JsoncNode {
+  const start = state.pos;
+  const properties: JsoncProperty[] = [];
+  parseList(state, "}", () => {
+    if (state.text[state.pos] !== '"') fail(state, "Expected a property name");
+    const keyStart = state.pos;
+    const key = parseString(state);
+    skipTrivia(state);
+    if (state.text[state.pos] !== ":") fail(state, 'Expected ":"');
+    state.pos++;
+    properties.push({ key, keyStart, value: parseValue(state) });
+  });
+  return { type: "object", start, end: state.pos, properties };
+}
+
+function parseArray(state: ParseState): JsoncNode {
+  const start = state.pos;
+  const items: JsoncNode[] = [];
+  parseList(state, "]", () => items.push(parseValue(state)));
+  return { type: "array", start, end: state.pos, items };
+}
+
+function parseValue(state: ParseState): JsoncNode {
+  skipTrivia(state);
+  const char = state.text[state.pos];
+  if (char === "{") return parseObject(state);
+  if (char === "[") return parseArray(state);
+  if (char !== '"') return parseLiteral(state);
+  const start = state.pos;
+  const value = parseString(state);
+  return { type: "value", start, end: state.pos, value };
+}
+
+/** Parses JSONC (comments and trailing commas allowed), keeping each value's source span. */
+export function parseJsoncTree(text: string): JsoncNode {
+  const state: ParseState = { text, pos: 0 };
+  const root = parseValue(state);
+  skipTrivia(state);
+  if (state.pos < text.length) fail(state, "Unexpected content after the end of the document");
+  return root;
+}
+
+export function toValue(node: JsoncNode): unknown {
+  if (node.type === "value") return node.value;
+  if (node.type === "array") return node.items.map(toValue);
+  return Object.fromEntries(node.properties.map((p) => [p.key, toValue(p.value)]));
+}
+
+export function parseJsonc(text: string): unknown {
+  return toValue(parseJsoncTree(text));
+}
+
+export function findNode(root: JsoncNode, path: JsoncPath): JsoncNode | null {
+  let node: JsoncNode | undefined = root;
+  for (const segment of path) {
+    if (node?.type === "object") {
+      // Like JSON.parse, the last of duplicate keys wins.
+      node = node.properties.filter((p) => p.key === segment).pop()?.value;
+    } else if (node?.type === "array" && typeof segment === "number") {
+      node = node.items[segment];
+    } else return null;
+  }
+  return node ?? null;
+}
+
+/**
+ * Replaces the value at `path`, leaving the rest of the text (comments,
+ * indentation) untouched. Returns null when the path does not exist.
+ */
+export function setJsoncValue(text: string, path: JsoncPath, value: unknown): string | null {
+  const node = findNode(parseJsoncTree(text), path);
+  if (!node) return null;
+  return text.slice(0, node.start) + JSON.stringify(value) + text.slice(node.end);
+}
+
+/** Span of `property` and its trailing comma, widened to whole lines when it sits alone. */
+function propertySpan(text: string, property: JsoncProperty): [number, number] {
+  let start = property.keyStart;
+  let end = property.value.end;
+  const comma = /^\s*,/.exec(text.slice(end));
+  if (comma) end += comma[0].length;
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const newline = text.indexOf("\n", end);
+  const lineEnd = newline === -1 ? text.length : newline + 1;
+  if (!text.slice(lineStart, start).trim() && !text.slice(end, lineEnd).trim()) {
+    start = lineStart;
+    end = lineEnd;
+  }
+  return [start, end];
+}
+
+/** Position of the comma following `node`, or -1 when there is none. */
+function commaAfter(text: string, node: JsoncNode): number {
+  const state: ParseState = { text, pos: node.end };
+  skipTrivia(state);
+  return text[state.pos] === "," ? state.pos : -1;
+}
+
+/**
+ * Removes the property at `path` together with its comma, and its whole line
+ * when it sat on a line of its own. Returns null when the path does not exist.
+ */
+export function removeJsoncProperty(text: string, path: JsoncPath): string | null {
+  const parent = findNode(parseJsoncTree(text), path.slice(0, -1));
+  if (parent?.type !== "object") return null;
+  const index = parent.properties.findIndex((p) => p.key === path[path.length - 1]);
+  const property = parent.properties[index];
+  if (!property) return null;
+
+  const [start, end] = propertySpan(text, property);
+  const removed = text.slice(0, start) + text.slice(end);
+  // Removing the last property: drop the comma after the one before it instead.
+  const previous = parent.properties[index - 1];
+  const previousComma =
+    previous && commaAfter(text, property.value) === -1 ? commaAfter(text, previous.value) : -1;
+  if (previousComma === -1) return removed;
+  return removed.slice(0, previousComma) + removed.slice(previousComma + 1);
+}
@@ -0,0 +1,35 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/** Appends `value` as one JSON line, creating the file and its directory. Returns false on failure. */
+export function appendJsonLine(file: string, value: unknown): boolean {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify(value) + "\n", "utf-8");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a JSON Lines file, skipping lines that do not parse, e.g. one cut
+ * short by a crash. A missing or unreadable file reads as empty.
+ */
+export function readJsonLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) return [];
+  try {
+    const values: T[] = [];
+    for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        values.push(JSON.parse(line) as T);
+      } catch {
+        continue;
+      }
+    }
+    return values;
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  appendHandoffRecord,
+  findAncestry,
+  formatHandoffHistory,
+  inheritedPreferences,
+  readHandoffRecords,
+  type HandoffRecord,
+} from "./ledger.ts";
+
+function record(previousSessionId: string, sessionId: string): HandoffRecord {
+  return {
+    previousSessionId,
+    sessionId,
+    title: `Handoff: ${previousSessionId}`,
+    summary: `Continued from ${previousSessionId}.`,
+    todos: [],
+    directory: "/repo",
+    timestamp: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+const chain = [record("ses_a", "ses_b"), record("ses_b", "ses_c"), record("ses_c", "ses_d")];
+
+describe("ledger storage", () => {
+  it("appends records and reads them back, skipping corrupt lines", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-ledger-"));
+    const ledgerPath = path.join(dir, "nested", "handoffs.jsonl");
+    expect(appendHandoffRecord(chain[0]!, ledgerPath)).toBe(true);
+    fs.appendFileSync(ledgerPath, "not json\n");
+    expect(appendHandoffRecord(chain[1]!, ledgerPath)).toBe(true);
+    expect(readHandoffRecords(ledgerPath)).toEqual([chain[0], chain[1]]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns no records when the ledger does not exist", () => {
+    expect(readHandoffRecords(path.join(os.tmpdir(), "missing-handoffs.jsonl"))).toEqual([]);
+  });
+});
+
+describe("findAncestry", () => {
+  it("walks back to the origin, oldest first", () => {
+    const [first, second, third] = findAncestry(chain, "ses_d");
+    expect([first?.sessionId, second?.sessionId, third?.sessionId]).toEqual([
+      "ses_b",
+      "ses_c",
+      "ses_d",
+    ]);
+  });
+
+  it("stops on cycles", () => {
+    const cyclic = [record("ses_x", "ses_y"), record("ses_y", "ses_x")];
+    expect(findAncestry(cyclic, "ses_x")).toHaveLength(1);
+  });
+});
+
+describe("inheritedPreferences", () => {
+  it("returns the preferences recorded by the handoff into a session", () => {
+    const records = [...chain, { ...record("ses_d", "ses_e"), userPrefs: ["Use pnpm"] }];
+    expect(inheritedPreferences(records, "ses_e")).toEqual(["Use pnpm"]);
+    expect(inheritedPreferences(records, "ses_d")).toEqual([]);
+    expect(inheritedPreferences(records, "ses_a")).toEqual([]);
+  });
+});
+
+describe("formatHandoffHistory", () => {
+  it("shows the chain and where it started", () => {
+    const result = formatHandoffHistory(chain, "ses_d");
+    expect(result).toContain("Handoff chain for ses_d (3 hops, started in ses_a)");
+    expect(result).toContain("1. ses_a → ses_b");
+    expect(result).toContain("3. ses_c → ses_d");
+  });
+
+  it("lists sessions handed off to", () => {
+    expect(formatHandoffHistory(chain, "ses_a")).toContain("Handed off from ses_a to:");
+  });
+
+  it("reports sessions without handoffs", () => {
+    expect(formatHandoffHistory(chain, "ses_z")).toBe("No recorded handoffs for session ses_z");
+  });
+});
@@ -0,0 +1,105 @@
+import * as path from "path";
+import { getConfigDir } from "./auto-update.ts";
+import { appendJsonLine, readJsonLines } from "./jsonl.ts";
+import type { Todo } from "./todos.ts";
+
+export interface HandoffRecord {
+  previousSessionId: string;
+  sessionId: string;
+  title: string;
+  summary: string;
+  goal?: string;
+  todos: Todo[];
+  model?: { providerID: string; modelID: string };
+  agent?: string;
+  /** User preferences in force at this hop, carried into the next one. */
+  userPrefs?: string[];
+  /** Estimated tokens of the prompt sent to the new session. */
+  promptTokens?: number;
+  /** Context tokens the previous session was using when it handed off. */
+  sourceTokens?: number;
+  directory: string;
+  timestamp: string;
+}
+
+export function getLedgerPath(): string {
+  return path.join(getConfigDir(), "session-handoff", "handoffs.jsonl");
+}
+
+export function appendHandoffRecord(record: HandoffRecord, ledgerPath = getLedgerPath()): boolean {
+  return appendJsonLine(ledgerPath, record);
+}
+
+export function readHandoffRecords(ledgerPath = getLedgerPath()): HandoffRecord[] {
+  return readJsonLines<HandoffRecord>(ledgerPath);
+}
+
+export function findParentRecord(
+  records: HandoffRecord[],
+  sessionId: string,
+): HandoffRecord | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (records[i]?.sessionId === sessionId) return records[i];
+  }
+  return undefined;
+}
+
+/** Preferences recorded by the handoff that created `sessionId`. */
+export function inheritedPreferences(records: HandoffRecord[], sessionId: string): string[] {
+  return findParentRecord(records, sessionId)?.userPrefs ?? [];
+}
+
+/**
+ * Walks the ledger back from `sessionId` and returns the handoffs that led to
+ * it, oldest first.
+ */
+export function findAncestry(records: HandoffRecord[], sessionId: string): HandoffRecord[] {
+  const chain: HandoffRecord[] = [];
+  const seen = new Set<string>([sessionId]);
+  let record = findParentRecord(records, sessionId);
+  while (record && !seen.has(record.previousSessionId)) {
+    chain.unshift(record);
+    seen.add(record.previousSessionId);
+    record = findParentRecord(records, record.previousSessionId);
+  }
+  return chain;
+}
+
+function formatRecord(record: HandoffRecord, index: number): string {
+  const lines = [
+    `${index}. ${record.previousSessionId} → ${record.sessionId} · ${record.timestamp} · "${record.title}"`,
+  ];
+  if (record.goal) lines.push(`   Goal: ${record.goal}`);
+  lines.push(`   Summary: ${record.summary}`);
+  if (record.todos.length > 0) {
+    const done = record.todos.filter((t) => t.status === "completed").length;
+    lines.push(`   Todos: ${done}/${record.todos.length} done`);
+  }
+  if (record.userPrefs?.length) lines.push(`   Preferences: ${record.userPrefs.join("; ")}`);
+  if (record.model) lines.push(`   Model: ${record.model.providerID}/${record.model.modelID}`);
+  return lines.join("\n");
+}
+
+export function formatHandoffHistory(records: HandoffRecord[], sessionId: string): string {
+  const ancestry = findAncestry(records, sessionId);
+  const handedOffTo = records.filter((r) => r.previousSessionId === sessionId);
+  if (ancestry.length === 0 && handedOffTo.length === 0) {
+    return `No recorded handoffs for session ${sessionId}`;
+  }
+
+  const sections: string[] = [];
+  if (ancestry.length > 0) {
+    const origin = ancestry[0]?.previousSessionId;
+    sections.push(
+      `Handoff chain for ${sessionId} (${ancestry.length} hop${ancestry.length === 1 ? "" : "s"}, started in ${origin}):`,
+      ancestry.map((r, i) => formatRecord(r, i + 1)).join("\n\n"),
+    );
+  }
+  if (handedOffTo.length > 0) {
+    sections.push(
+      `Handed off from ${sessionId} to:`,
+      handedOffTo.map((r, i) => formatRecord(r, i + 1)).join("\n\n"),
+    );
+  }
+  return sections.join("\n\n");
+}
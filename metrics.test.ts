@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { HandoffRecord } from "./ledger.ts";
+import {
+  appendLookupEvent,
+  computeHandoffStats,
+  formatDuration,
+  formatHandoffStats,
+  readLookupEvents,
+  type LookupEvent,
+} from "./metrics.ts";
+
+function record(
+  sessionId: string,
+  timestamp: string,
+  overrides: Partial<HandoffRecord> = {},
+): HandoffRecord {
+  return {
+    previousSessionId: `prev_${sessionId}`,
+    sessionId,
+    title: `Handoff ${sessionId}`,
+    summary: "Did things.",
+    todos: [],
+    directory: "/repo",
+    timestamp,
+    ...overrides,
+  };
+}
+
+function lookup(tool: LookupEvent["tool"], sessionId: string): LookupEvent {
+  return { tool, sessionId, timestamp: "2026-03-01T00:00:00.000Z" };
+}
+
+const records = [
+  record("ses_a", "2026-03-01T10:00:00.000Z", { promptTokens: 300, sourceTokens: 150000 }),
+  record("ses_b", "2026-03-01T12:30:00.000Z", { promptTokens: 500, sourceTokens: 170000 }),
+  record("ses_c", "2026-03-02T12:30:00.000Z"),
+  record("ses_x", "2026-03-01T11:00:00.000Z", { directory: "/other", promptTokens: 900 }),
+];
+
+const lookups = [
+  lookup("read_session", "ses_a"),
+  lookup("read_session", "ses_a"),
+  lookup("search_session", "ses_b"),
+  lookup("read_session", "ses_x"),
+  lookup("read_session", "ses_unrelated"),
+];
+
+describe("lookup log", () => {
+  it("appends events and reads them back, skipping corrupt lines", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-metrics-"));
+    const metricsPath = path.join(dir, "nested", "lookups.jsonl");
+    expect(appendLookupEvent(lookups[0]!, metricsPath)).toBe(true);
+    fs.appendFileSync(metricsPath, "not json\n");
+    expect(appendLookupEvent(lookups[2]!, metricsPath)).toBe(true);
+    expect(readLookupEvents(metricsPath)).toEqual([lookups[0], lookups[2]]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("computeHandoffStats", () => {
+  it("summarizes one project's handoffs and the lookups their sessions made", () => {
+    const stats = computeHandoffStats(records, lookups, { directory: "/repo" });
+    expect(stats.handoffs).toBe(3);
+    expect(stats.perProject).toEqual([{ directory: "/repo", handoffs: 3 }]);
+    expect(stats.promptTokens).toMatchObject({ median: 400, min: 300, max: 500, count: 2 });
+    expect(stats.sourceTokens?.average).toBe(160000);
+    expect(stats.readSessionHandoffs).toBe(1);
+    expect(stats.readSessionCalls).toBe(2);
+    expect(stats.searchSessionCalls).toBe(1);
+    expect(stats.gaps).toMatchObject({ min: 2.5 * 3600000, max: 24 * 3600000 });
+  });
+
+  it("keeps projects apart when measuring the time between handoffs", () => {
+    const stats = computeHandoffStats(records, lookups);
+    expect(stats.handoffs).toBe(4);
+    expect(stats.perProject[0]).toEqual({ directory: "/repo", handoffs: 3 });
+    expect(stats.gaps?.count).toBe(2);
+  });
+
+  it("limits the report to recent handoffs", () => {
+    const now = new Date("2026-03-02T20:00:00.000Z");
+    expect(computeHandoffStats(records, lookups, { days: 1, now }).handoffs).toBe(1);
+  });
+});
+
+describe("formatHandoffStats", () => {
+  it("reports each metric and notes partial coverage", () => {
+    const output = formatHandoffStats(computeHandoffStats(records, lookups), "all projects");
+    expect(output).toContain(
+      "Handoff stats for all projects: 4 handoffs, 2026-03-01 to 2026-03-02",
+    );
+    expect(output).toContain("Prompt size: median ~500 tokens");
+    expect(output).toContain("recorded for 3)");
+    expect(output).toContain("read_session in the new session: 2 of 4 handoffs (50%)");
+    expect(output).toContain("- /other: 1");
+  });
+
+  it("says when there is nothing to report", () => {
+    expect(formatHandoffStats(computeHandoffStats([], []), "/repo")).toBe(
+      "No recorded handoffs for /repo.",
+    );
+  });
+
+  it("formats durations compactly", () => {
+    expect(formatDuration(5 * 60000)).toBe("5m");
+    expect(formatDuration(130 * 60000)).toBe("2h 10m");
+    expect(formatDuration((3 * 24 + 2) * 3600000)).toBe("3d 2h");
+  });
+});
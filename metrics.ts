@@ -0,0 +1,188 @@
+import * as path from "path";
+import { getConfigDir } from "./auto-update.ts";
+import { appendJsonLine, readJsonLines } from "./jsonl.ts";
+import type { HandoffRecord } from "./ledger.ts";
+
+/** A context lookup made from a session, counted against the handoff that created it. */
+export interface LookupEvent {
+  tool: "read_session" | "search_session";
+  sessionId: string;
+  timestamp: string;
+}
+
+export interface StatsOptions {
+  /** Only count handoffs from this project; all projects when omitted. */
+  directory?: string | undefined;
+  /** Only count handoffs made in the last `days` days. */
+  days?: number | undefined;
+  now?: Date;
+}
+
+interface Spread {
+  average: number;
+  median: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface HandoffStats {
+  handoffs: number;
+  first?: string;
+  last?: string;
+  perProject: Array<{ directory: string; handoffs: number }>;
+  promptTokens: Spread | null;
+  sourceTokens: Spread | null;
+  /** Handoffs whose new session called read_session at least once. */
+  readSessionHandoffs: number;
+  readSessionCalls: number;
+  searchSessionCalls: number;
+  /** Milliseconds between consecutive handoffs in the same project. */
+  gaps: Spread | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LISTED_PROJECTS = 10;
+
+export function getMetricsPath(): string {
+  return path.join(getConfigDir(), "session-handoff", "lookups.jsonl");
+}
+
+export function appendLookupEvent(event: LookupEvent, metricsPath = getMetricsPath()): boolean {
+  return appendJsonLine(metricsPath, event);
+}
+
+export function readLookupEvents(metricsPath = getMetricsPath()): LookupEvent[] {
+  return readJsonLines<LookupEvent>(metricsPath);
+}
+
+function spread(values: number[]): Spread | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0
+      ? ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2
+      : (sorted[mid] ?? 0);
+  return {
+    average: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    median,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    count: sorted.length,
+  };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  return counts;
+}
+
+function selectRecords(records: HandoffRecord[], options: StatsOptions): HandoffRecord[] {
+  const since = options.days ? (options.now ?? new Date()).getTime() - options.days * DAY_MS : 0;
+  return records.filter(
+    (r) =>
+      (!options.directory || r.directory === options.directory) && Date.parse(r.timestamp) >= since,
+  );
+}
+
+/** Time between consecutive handoffs, per project so parallel projects do not interleave. */
+function handoffGaps(records: HandoffRecord[]): number[] {
+  const byProject = new Map<string, number[]>();
+  for (const r of records) {
+    byProject.set(r.directory, [...(byProject.get(r.directory) ?? []), Date.parse(r.timestamp)]);
+  }
+  return [...byProject.values()].flatMap((times) =>
+    times
+      .sort((a, b) => a - b)
+      .slice(1)
+      .map((time, i) => time - (times[i] ?? time)),
+  );
+}
+
+function numbers(values: Array<number | undefined>): number[] {
+  return values.filter((v): v is number => typeof v === "number");
+}
+
+export function computeHandoffStats(
+  records: HandoffRecord[],
+  lookups: LookupEvent[],
+  options: StatsOptions = {},
+): HandoffStats {
+  const selected = selectRecords(records, options);
+  const created = new Set(selected.map((r) => r.sessionId));
+  const relevant = lookups.filter((e) => created.has(e.sessionId));
+  const reads = relevant.filter((e) => e.tool === "read_session");
+  const times = selected.map((r) => r.timestamp).sort();
+  return {
+    handoffs: selected.length,
+    ...(times[0] && { first: times[0] }),
+    ...(times.length > 0 && { last: times[times.length - 1] }),
+    perProject: [...countBy(selected, (r) => r.directory)]
+      .map(([directory, handoffs]) => ({ directory, handoffs }))
+      .sort((a, b) => b.handoffs - a.handoffs),
+    promptTokens: spread(numbers(selected.map((r) => r.promptTokens))),
+    sourceTokens: spread(numbers(selected.map((r) => r.sourceTokens))),
+    readSessionHandoffs: countBy(reads, (e) => e.sessionId).size,
+    readSessionCalls: reads.length,
+    searchSessionCalls: relevant.length - reads.length,
+    gaps: spread(handoffGaps(selected)),
+  };
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000
+    ? `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`
+    : `${Math.round(tokens)}`;
+}
+
+/** `3d 2h`, `2h 10m`, `5m`. */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+function formatSpread(value: Spread, format: (n: number) => string): string {
+  return `median ${format(value.median)}, average ${format(value.average)} (min ${format(value.min)}, max ${format(value.max)})`;
+}
+
+/** Older ledger entries have no sizes, so say how many handoffs a figure covers when it is not all. */
+function formatSize(value: Spread | null, handoffs: number, format: (n: number) => string): string {
+  if (!value) return "no data yet";
+  const coverage = value.count < handoffs ? `; recorded for ${value.count}` : "";
+  return formatSpread(value, format).replace(/\)$/, `${coverage})`);
+}
+
+function formatLookups(stats: HandoffStats): string {
+  const share = Math.round((stats.readSessionHandoffs / stats.handoffs) * 100);
+  const perHandoff = (stats.readSessionCalls / stats.handoffs).toFixed(1);
+  return `read_session in the new session: ${stats.readSessionHandoffs} of ${stats.handoffs} handoffs (${share}%), ${perHandoff} calls per handoff; search_session: ${stats.searchSessionCalls} calls`;
+}
+
+function formatProjects(stats: HandoffStats): string[] {
+  const listed = stats.perProject
+    .slice(0, MAX_LISTED_PROJECTS)
+    .map((p) => `- ${p.directory}: ${p.handoffs}`);
+  const more = stats.perProject.length - listed.length;
+  return ["Handoffs per project:", ...listed, ...(more > 0 ? [`- +${more} more`] : [])];
+}
+
+export function formatHandoffStats(stats: HandoffStats, scope: string): string {
+  if (stats.handoffs === 0) return `No recorded handoffs for ${scope}.`;
+  const range = `${stats.first?.slice(0, 10)} to ${stats.last?.slice(0, 10)}`;
+  return [
+    `Handoff stats for ${scope}: ${stats.handoffs} handoff${stats.handoffs === 1 ? "" : "s"}, ${range}`,
+    "",
+    `Prompt size: ${formatSize(stats.promptTokens, stats.handoffs, (n) => `~${formatTokens(n)} tokens`)}`,
+    `Source context at handoff: ${formatSize(stats.sourceTokens, stats.handoffs, (n) => `${formatTokens(n)} tokens`)}`,
+    formatLookups(stats),
+    `Time between handoffs: ${stats.gaps ? formatSpread(stats.gaps, formatDuration) : "needs two handoffs in a project"}`,
+    "",
+    ...formatProjects(stats),
+  ].join("\n");
+}
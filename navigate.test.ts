@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { isHeadless, navigateToSession, resolveNavigateAction } from "./navigate.ts";
+
+const target = { sessionId: "ses_new", title: "Handoff: Auth work" };
+
+function fakeClient(options: { publishError?: boolean; hang?: boolean } = {}) {
+  const calls: string[] = [];
+  const respond = (name: string, error = false) => {
+    calls.push(name);
+    if (options.hang) return new Promise(() => {});
+    return Promise.resolve(error ? { error: { name: "BadRequest" } } : { data: true });
+  };
+  const client = {
+    tui: {
+      openSessions: () => respond("openSessions"),
+      publish: () => respond("publish", options.publishError),
+      showToast: () => respond("showToast"),
+    },
+  } as unknown as PluginInput["client"];
+  return { client, calls };
+}
+
+describe("resolveNavigateAction", () => {
+  const config = { openPicker: true };
+
+  it("prefers the tool argument, then the environment, then the config", () => {
+    expect(resolveNavigateAction({ navigate: "toast" }, config, {})).toBe("toast");
+    expect(resolveNavigateAction({ open_picker: false }, config, {})).toBe("none");
+    expect(resolveNavigateAction({}, config, { OPENCODE_HANDOFF_NAVIGATE: "switch" })).toBe(
+      "switch",
+    );
+    expect(resolveNavigateAction({}, { ...config, navigate: "toast" }, {})).toBe("toast");
+    expect(resolveNavigateAction({}, config, {})).toBe("picker");
+    expect(resolveNavigateAction({}, { openPicker: false }, {})).toBe("none");
+  });
+
+  it("does nothing in headless environments", () => {
+    expect(isHeadless({ CI: "true" })).toBe(true);
+    expect(isHeadless({ CI: "false", OPENCODE_HANDOFF_HEADLESS: "0" })).toBe(false);
+    expect(resolveNavigateAction({ navigate: "switch" }, config, { CI: "1" })).toBe("none");
+  });
+});
+
+describe("navigateToSession", () => {
+  it("opens the picker", async () => {
+    const { client, calls } = fakeClient();
+    const note = await navigateToSession(client, "/repo", { ...target, action: "picker" });
+    expect(note).toBe(" If a TUI is attached, select it from the session picker.");
+    expect(calls).toEqual(["openSessions"]);
+  });
+
+  it("falls back to the picker when the TUI cannot switch sessions", async () => {
+    const { client, calls } = fakeClient({ publishError: true });
+    const note = await navigateToSession(client, "/repo", { ...target, action: "switch" });
+    expect(note).toContain("Could not switch to it directly");
+    expect(calls).toEqual(["publish", "openSessions"]);
+  });
+
+  it("reports a TUI that does not answer instead of hanging", async () => {
+    const { client } = fakeClient({ hang: true });
+    const note = await navigateToSession(client, "/repo", { ...target, action: "toast" }, 10);
+    expect(note).toBe(
+      " Could not reach the TUI (no response from the TUI after 10ms); switch to the session manually.",
+    );
+  });
+
+  it("makes no TUI calls for none", async () => {
+    const { client, calls } = fakeClient();
+    expect(await navigateToSession(client, "/repo", { ...target, action: "none" })).toBe("");
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { TuiPublishData } from "@opencode-ai/sdk";
+import type { EventTuiSessionSelect } from "@opencode-ai/sdk/v2";
+
+type PluginClient = PluginInput["client"];
+
+/** What to do in the TUI once the handoff session exists. */
+export type NavigateAction = "picker" | "switch" | "toast" | "none";
+
+export const NAVIGATE_ACTIONS = ["picker", "switch", "toast", "none"] as const;
+
+/** TUI calls can hang with no TUI attached; give up after this long. */
+const TUI_TIMEOUT_MS = 3000;
+
+export interface NavigateRequest {
+  /** From the tool call; wins over everything else. */
+  navigate?: NavigateAction | undefined;
+  /** Older shorthand: `true` is "picker", `false` is "none". */
+  open_picker?: boolean | undefined;
+}
+
+export interface NavigateTarget {
+  action: NavigateAction;
+  sessionId: string;
+  title: string;
+}
+
+export function isNavigateAction(value: string | undefined): value is NavigateAction {
+  return (NAVIGATE_ACTIONS as readonly string[]).includes(value ?? "");
+}
+
+function isSet(value: string | undefined): boolean {
+  return !!value && value !== "0" && value.toLowerCase() !== "false";
+}
+
+/**
+ * True when no TUI is likely to be attached: in CI, or when
+ * `OPENCODE_HANDOFF_HEADLESS` is set for scripts and `opencode run`.
+ */
+export function isHeadless(env: Record<string, string | undefined> = process.env): boolean {
+  return isSet(env.OPENCODE_HANDOFF_HEADLESS) || isSet(env.CI);
+}
+
+/** The `navigate` and older `openPicker` config options. */
+export interface NavigateConfig {
+  navigate?: NavigateAction;
+  openPicker: boolean;
+}
+
+/**
+ * The action for this handoff: the tool argument, then `OPENCODE_HANDOFF_NAVIGATE`,
+ * then `navigate`, then `openPicker`. Headless environments always get "none".
+ */
+export function resolveNavigateAction(
+  request: NavigateRequest,
+  config: NavigateConfig,
+  env: Record<string, string | undefined> = process.env,
+): NavigateAction {
+  if (isHeadless(env)) return "none";
+  if (request.navigate) return request.navigate;
+  if (request.open_picker !== undefined) return request.open_picker ? "picker" : "none";
+  const fromEnv = env.OPENCODE_HANDOFF_NAVIGATE;
+  if (isNavigateAction(fromEnv)) return fromEnv;
+  return config.navigate ?? (config.openPicker ? "picker" : "none");
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`no response from the TUI after ${ms}ms`)), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Throws when the server reports an error, since the SDK returns errors instead of throwing. */
+function check(result: { error?: unknown } | undefined): void {
+  if (result?.error) throw new Error(JSON.stringify(result.error));
+}
+
+async function openPicker(client: PluginClient, directory: string): Promise<void> {
+  check(await client.tui.openSessions({ query: { directory } }));
+}
+
+/**
+ * Publishes the v2 SDK's `tui.session.select` event through `tui.publish`,
+ * whose v1 types on the plugin's client predate it. The body is cast, so the
+ * types check nothing here: a server that does not know the event answers with
+ * an error, which `check()` throws and `runAction` turns into opening the
+ * session picker instead.
+ */
+async function selectSession(
+  client: PluginClient,
+  directory: string,
+  sessionID: string,
+): Promise<void> {
+  const event: EventTuiSessionSelect = { type: "tui.session.select", properties: { sessionID } };
+  const body = event as unknown as NonNullable<TuiPublishData["body"]>;
+  check(await client.tui.publish({ query: { directory }, body }));
+}
+
+async function showToast(client: PluginClient, target: NavigateTarget): Promise<void> {
+  check(
+    await client.tui.showToast({
+      body: {
+        title: "Handoff ready",
+        message: `"${target.title}" · ${target.sessionId}`,
+        variant: "success",
+      },
+    }),
+  );
+}
+
+/**
+ * The TUI accepts these calls whether or not one is attached, e.g. under
+ * `opencode run` or the server API, so the notes do not claim it showed anything.
+ */
+async function runAction(
+  client: PluginClient,
+  directory: string,
+  target: NavigateTarget,
+): Promise<string> {
+  switch (target.action) {
+    case "picker":
+      await openPicker(client, directory);
+      return " If a TUI is attached, select it from the session picker.";
+    case "switch":
+      try {
+        await selectSession(client, directory, target.sessionId);
+        return " If a TUI is attached, it has switched to it.";
+      } catch {
+        await openPicker(client, directory);
+        return " Could not switch to it directly; if a TUI is attached, select it from the session picker.";
+      }
+    case "toast":
+      await showToast(client, target);
+      return "";
+    case "none":
+      return "";
+  }
+}
+
+/**
+ * Runs the post-handoff action and returns a note for the tool result. TUI
+ * failures and timeouts are reported in the note instead of failing the
+ * handoff, which has already been sent.
+ */
+export async function navigateToSession(
+  client: PluginClient,
+  directory: string,
+  target: NavigateTarget,
+  timeoutMs = TUI_TIMEOUT_MS,
+): Promise<string> {
+  try {
+    return await withTimeout(runAction(client, directory, target), timeoutMs);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return ` Could not reach the TUI (${message}); switch to the session manually.`;
+  }
+}
+
+/** A line scripts can grep for: `session_id: ses_...`. */
+export function formatSessionIdLine(sessionId: string): string {
+  return `session_id: ${sessionId}`;
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from "crypto";
+import type { HandoffConfirmToolArgs } from "./args.ts";
+import {
+  applyOverrides,
+  describeTarget,
+  renderPreviewPrompt,
+  sendHandoff,
+  type PluginContext,
+  type PreparedHandoff,
+} from "./handoff.ts";
+import { describeSessionTarget } from "./session-target.ts";
+import { estimateTokens } from "./prompt.ts";
+import { formatQualityWarnings } from "./quality.ts";
+import { formatRedactionCount } from "./redact.ts";
+
+const MAX_PREVIEWS = 20;
+const PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+interface StoredPreview {
+  prepared: PreparedHandoff;
+  savedAt: number;
+}
+
+/**
+ * Keeps dry-run handoffs in memory until they are confirmed. Each preview can
+ * be taken once, and put back if sending it fails; the oldest are dropped past
+ * MAX_PREVIEWS and all expire after an hour.
+ */
+export function createPreviewStore(now: () => number = Date.now) {
+  const previews = new Map<string, StoredPreview>();
+
+  return {
+    save(prepared: PreparedHandoff): string {
+      for (const [id, entry] of previews) {
+        if (now() - entry.savedAt > PREVIEW_TTL_MS) previews.delete(id);
+      }
+      const oldest = previews.keys().next();
+      if (previews.size >= MAX_PREVIEWS && !oldest.done) previews.delete(oldest.value);
+      const id = `preview_${randomUUID().slice(0, 8)}`;
+      previews.set(id, { prepared, savedAt: now() });
+      return id;
+    },
+
+    take(id: string): PreparedHandoff | null {
+      const entry = previews.get(id);
+      previews.delete(id);
+      if (!entry || now() - entry.savedAt > PREVIEW_TTL_MS) return null;
+      return entry.prepared;
+    },
+
+    /** Puts a taken preview back under the same id; its hour starts again. */
+    restore(id: string, prepared: PreparedHandoff): void {
+      previews.set(id, { prepared, savedAt: now() });
+    },
+  };
+}
+
+export type PreviewStore = ReturnType<typeof createPreviewStore>;
+
+/**
+ * Sends a previewed handoff with the confirm arguments applied. The preview is
+ * only dropped once the session exists: a send blocked by strict quality
+ * checks, or one whose session could not be created or prompted (including a
+ * client call that throws), leaves it in place so the confirm can be retried.
+ */
+export async function confirmPreview(
+  pluginCtx: PluginContext,
+  previews: PreviewStore,
+  args: HandoffConfirmToolArgs,
+): Promise<string> {
+  const { preview_id, prompt, ...overrides } = args;
+  const prepared = previews.take(preview_id);
+  if (!prepared) {
+    return `Error: no pending preview "${preview_id}". Previews can be sent once and expire after an hour; run session_handoff with dry_run again.`;
+  }
+  try {
+    const result = await sendHandoff(pluginCtx, applyOverrides(prepared, overrides), prompt);
+    if (result.ok) return result.message;
+    previews.restore(preview_id, prepared);
+    return result.error;
+  } catch (error) {
+    previews.restore(preview_id, prepared);
+    return `Error: handoff not sent: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+export function formatPreview(
+  id: string,
+  prepared: PreparedHandoff,
+  warnings: string[] = [],
+): string {
+  const { prompt, redactions } = renderPreviewPrompt(prepared);
+  return [
+    `Handoff preview \`${id}\`. Nothing has been created yet.`,
+    "",
+    `Title: ${prepared.title}`,
+    `Target: ${describeTarget(prepared.context)}${prepared.changes.length > 0 ? ` (${prepared.changes.join(", ")})` : ""}`,
+    `Session: ${describeSessionTarget(prepared.target)}`,
+    ...(redactions ? [`Redaction: ${formatRedactionCount(redactions)}`] : []),
+    `Prompt (~${estimateTokens(prompt)} tokens):`,
+    "",
+    // Four backticks, since the prompt itself can contain a fenced diff stat.
+    "````markdown",
+    prompt,
+    "````",
+    "",
+    ...(warnings.length > 0
+      ? [
+          formatQualityWarnings(warnings),
+          "Fix these with handoff_confirm arguments before sending.",
+          "",
+        ]
+      : []),
+    `To send it, call handoff_confirm with preview_id "${id}". Pass session_handoff arguments to replace those sections, or \`prompt\` with the full edited text.`,
+  ].join("\n");
+}
@@ -1,7 +1,7 @@
-interface Todo {
-  content: string;
-  status: string;
-}
+import type { GitSnapshot } from "./git.ts";
+import type { RedactionResult, Redactor } from "./redact.ts";
+import { renderTemplate, type TemplateNode, type TemplateValues } from "./template.ts";
+import type { Todo } from "./todos.ts";
 
 interface Decision {
   decision: string;
@@ -16,15 +16,48 @@ interface TriedFailed {
 export interface HandoffArgs {
   previousSessionId: string;
   summary: string;
+  /** True when the summary was generated from the session rather than written by the model. */
+  summary_auto?: boolean;
   blocked: string;
   modified_files: string[];
   reference_files: string[];
+  /** How often each file was touched in the previous session, when detected from tool calls. */
+  file_counts?: Record<string, number>;
   decisions: Decision[];
   tried_failed: TriedFailed[];
   next_steps: string[];
   user_prefs: string[];
   todos?: Todo[];
+  /** Whether open todos were written into the new session's todo list. */
+  todos_restored?: boolean;
   goal?: string;
+  git?: GitSnapshot;
+}
+
+export interface PromptOptions {
+  /** Estimated token budget; lower-priority sections are trimmed to fit. */
+  tokenBudget?: number;
+  /** Parsed user template; the built-in layout is used when absent. */
+  template?: TemplateNode[] | null;
+  /** Applied to the rendered prompt before it is measured against the budget. */
+  redact?: Redactor | null;
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  /** Number of secrets the redactor replaced. */
+  redactions: number;
+}
+
+/** Cheap local estimate (~4 characters per token), good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function withMore<T>(items: T[], limit: number): { shown: T[]; more: string } {
+  const shown = items.slice(0, limit);
+  const hidden = items.length - shown.length;
+  return { shown, more: hidden > 0 ? `+${hidden} more` : "" };
 }
 
 function buildBlockedSection(blocked: string): string[] {
@@ -32,35 +65,143 @@ function buildBlockedSection(blocked: string): string[] {
   return ["", "**Blocked:** " + blocked];
 }
 
-function buildTodosSection(todos: Todo[] | undefined): string[] {
+function formatTodo(todo: Todo): string {
+  return todo.priority && todo.priority !== "medium"
+    ? `${todo.content} (${todo.priority})`
+    : todo.content;
+}
+
+function todosFollowUp(restored: boolean | undefined): string[] {
+  if (restored === true) return ["- Already in your todo list; resume the in-progress item first."];
+  if (restored === false) {
+    return [
+      "- Recreate these with todowrite in this order, keeping priorities and marking the in-progress item in_progress.",
+    ];
+  }
+  return [];
+}
+
+function openTodoCount(todos: Todo[] | undefined): number {
+  return (todos ?? []).filter((t) => t.status === "in_progress" || t.status === "pending").length;
+}
+
+function buildTodosSection(
+  todos: Todo[] | undefined,
+  restored: boolean | undefined,
+  limit = Infinity,
+): string[] {
   if (!todos || todos.length === 0) return [];
   const completed = todos.filter((t) => t.status === "completed").length;
   const inProgress = todos.filter((t) => t.status === "in_progress");
   const pending = todos.filter((t) => t.status === "pending");
   const lines = ["", `**Todos:** ${completed}/${todos.length} done`];
-  if (inProgress.length > 0) {
-    lines.push(`- In progress: ${inProgress.map((t) => t.content).join(", ")}`);
+  const shownInProgress = inProgress.slice(0, limit);
+  const pendingList = withMore(pending, Math.max(limit - shownInProgress.length, 0));
+  const hidden =
+    inProgress.length - shownInProgress.length + pending.length - pendingList.shown.length;
+  if (shownInProgress.length > 0) {
+    lines.push(`- In progress: ${shownInProgress.map(formatTodo).join(", ")}`);
   }
-  if (pending.length > 0) {
-    lines.push(`- Pending: ${pending.map((t) => t.content).join(", ")}`);
+  if (pendingList.shown.length > 0) {
+    lines.push(`- Pending: ${pendingList.shown.map(formatTodo).join(", ")}`);
   }
+  if (hidden > 0) lines.push(`- +${hidden} more`);
+  if (inProgress.length + pending.length > 0) lines.push(...todosFollowUp(restored));
   return lines;
 }
 
-function buildFilesSection(modified: string[]): string[] {
-  if (modified.length === 0) return [];
-  return ["", `**Files:** ${modified.join(", ")}`];
+const MAX_FILES = 8;
+
+function formatFileList(
+  files: string[],
+  counts: Record<string, number> | undefined,
+  limit: number,
+): string {
+  const { shown, more } = withMore(files, Math.min(limit, MAX_FILES));
+  const items = shown.map((f) => {
+    const count = counts?.[f];
+    return count && count > 1 ? `${f} ×${count}` : f;
+  });
+  if (more) items.push(more);
+  return items.join(", ");
+}
+
+function buildFilesSection(args: HandoffArgs, limit = Infinity): string[] {
+  const { modified_files: modified, reference_files: reference, file_counts: counts } = args;
+  const lines: string[] = [];
+  if (modified.length > 0) lines.push(`**Files:** ${formatFileList(modified, counts, limit)}`);
+  if (reference.length > 0) {
+    lines.push(`**Referenced:** ${formatFileList(reference, counts, limit)}`);
+  }
+  return lines.length > 0 ? ["", ...lines] : [];
+}
+
+function formatGitState(git: GitSnapshot): string {
+  const parts = [git.head ? `${git.branch} @ ${git.head}` : `${git.branch} (no commits)`];
+  if (git.ahead || git.behind) parts[0] += ` (ahead ${git.ahead ?? 0}, behind ${git.behind ?? 0})`;
+  const changes = [
+    git.staged && `${git.staged} staged`,
+    git.unstaged && `${git.unstaged} unstaged`,
+    git.untracked && `${git.untracked} untracked`,
+  ].filter(Boolean);
+  parts.push(changes.length > 0 ? changes.join(", ") : "clean");
+  return parts.join(" · ");
+}
+
+function diffStatBlock(git: GitSnapshot, limit: number): string[] {
+  if (limit <= 0 || git.diffStat.length === 0) return [];
+  // The last diff stat line is the totals line; keep it whenever any file line is shown.
+  const fileLines = git.diffStat.slice(0, -1);
+  const totals = git.diffStat.slice(-1);
+  const { shown, more } = withMore(fileLines, limit);
+  return ["```", ...shown, ...(more ? [` ${more}`] : []), ...totals, "```"];
+}
+
+function buildGitSection(git: GitSnapshot | undefined, limit = Infinity): string[] {
+  if (!git) return [];
+  return ["", `**Git:** ${formatGitState(git)}`, ...diffStatBlock(git, limit)];
 }
 
-function buildDecisionsSection(decisions: Decision[]): string[] {
+function buildDecisionsSection(decisions: Decision[], limit = Infinity): string[] {
   if (decisions.length === 0) return [];
-  const items = decisions.map((d) => (d.reason ? `${d.decision} (${d.reason})` : d.decision));
+  const { shown, more } = withMore(decisions, limit);
+  const items = shown.map((d) => (d.reason ? `${d.decision} (${d.reason})` : d.decision));
+  if (more) items.push(more);
   return ["", `**Decisions:** ${items.join("; ")}`];
 }
 
-function buildNextStepsSection(steps: string[]): string[] {
+function buildNextStepsSection(steps: string[], limit = Infinity): string[] {
   if (steps.length === 0) return [];
-  return ["", "**Next:** " + steps.map((s, i) => `${i + 1}. ${s}`).join(" ")];
+  const { shown, more } = withMore(steps, limit);
+  const items = shown.map((s, i) => `${i + 1}. ${s}`);
+  if (more) items.push(more);
+  return ["", "**Next:** " + items.join(" ")];
+}
+
+function buildSummarySection(summary: string, auto: boolean | undefined): string[] {
+  if (!auto) return [summary];
+  return [
+    "_Auto-generated summary (none was provided), built from the previous session:_",
+    summary,
+  ];
+}
+
+function formatTriedFailed(t: TriedFailed): string {
+  return t.why_failed ? `${t.approach}: ${t.why_failed}` : t.approach;
+}
+
+function buildTriedFailedSection(triedFailed: TriedFailed[]): string[] {
+  if (triedFailed.length === 0) return [];
+  return [
+    "",
+    "**Tried & failed (don't retry):**",
+    ...triedFailed.map((t) => `- ${formatTriedFailed(t)}`),
+  ];
+}
+
+function buildUserPrefsSection(prefs: string[]): string[] {
+  if (prefs.length === 0) return [];
+  return ["", "**User preferences:**", ...prefs.map((p) => `- ${p}`)];
 }
 
 function buildGoalSection(goal: string | undefined): string[] {
@@ -68,19 +209,151 @@ function buildGoalSection(goal: string | undefined): string[] {
   return ["", `**Goal:** ${goal}`];
 }
 
-export function buildHandoffPrompt(args: HandoffArgs): string {
+type SectionName = "todos" | "files" | "git" | "decisions" | "next";
+type Limits = Record<SectionName, number>;
+
+/** Trimmed first when over budget, lowest priority first. */
+const TRIM_ORDER: SectionName[] = ["git", "files", "decisions", "todos", "next"];
+
+function itemCounts(args: HandoffArgs): Limits {
+  return {
+    todos: openTodoCount(args.todos),
+    files: Math.min(Math.max(args.modified_files.length, args.reference_files.length), MAX_FILES),
+    git: Math.max((args.git?.diffStat.length ?? 0) - 1, 0),
+    decisions: args.decisions.length,
+    next: args.next_steps.length,
+  };
+}
+
+function footer(previousSessionId: string): string[] {
+  return [
+    "",
+    `---`,
+    `Previous: \`${previousSessionId}\` · Use \`read_session\` if you need more context.`,
+  ];
+}
+
+function bulletList(items: string[], more: string): string {
+  return [...items.map((item) => `- ${item}`), ...(more ? [`- ${more}`] : [])].join("\n");
+}
+
+function todoChecklist(todos: Todo[] | undefined, limit: number): string {
+  const open = [
+    ...(todos ?? []).filter((t) => t.status === "in_progress"),
+    ...(todos ?? []).filter((t) => t.status === "pending"),
+  ];
+  const { shown, more } = withMore(open, limit);
+  const items = shown.map((t) =>
+    t.status === "in_progress"
+      ? `- [ ] **In progress:** ${formatTodo(t)}`
+      : `- [ ] ${formatTodo(t)}`,
+  );
+  if (more) items.push(`- ${more}`);
+  return items.join("\n");
+}
+
+function todoProgress(todos: Todo[] | undefined): string {
+  if (!todos || todos.length === 0) return "";
+  const completed = todos.filter((t) => t.status === "completed").length;
+  return `${completed}/${todos.length} done`;
+}
+
+function listValues(args: HandoffArgs, limits: Limits) {
+  const steps = withMore(args.next_steps, limits.next);
+  const decisions = withMore(args.decisions, limits.decisions);
+  return {
+    next_steps: [...steps.shown.map((s, i) => `${i + 1}. ${s}`), steps.more]
+      .filter(Boolean)
+      .join("\n"),
+    next_steps_checklist: bulletList(
+      steps.shown.map((s) => `[ ] ${s}`),
+      steps.more,
+    ),
+    decisions: bulletList(
+      decisions.shown.map((d) => (d.reason ? `${d.decision} (${d.reason})` : d.decision)),
+      decisions.more,
+    ),
+    tried_failed: bulletList(args.tried_failed.map(formatTriedFailed), ""),
+    user_prefs: bulletList(args.user_prefs, ""),
+  };
+}
+
+/** Every template placeholder, rendered as text; an empty string means "not set". */
+function templateValues(args: HandoffArgs, limits: Limits): TemplateValues {
+  const git = args.git;
+  return {
+    previous_session_id: args.previousSessionId,
+    summary: args.summary,
+    summary_auto: args.summary_auto ? "true" : "",
+    goal: args.goal ?? "",
+    blocked: args.blocked === "none" ? "" : args.blocked,
+    todos: todoChecklist(args.todos, limits.todos),
+    todos_progress: todoProgress(args.todos),
+    todos_follow_up:
+      openTodoCount(args.todos) > 0 ? todosFollowUp(args.todos_restored).join("\n") : "",
+    ...listValues(args, limits),
+    modified_files: formatFileList(args.modified_files, args.file_counts, limits.files),
+    reference_files: formatFileList(args.reference_files, args.file_counts, limits.files),
+    git: git ? [formatGitState(git), ...diffStatBlock(git, limits.git)].join("\n") : "",
+  };
+}
+
+function renderPrompt(args: HandoffArgs, limits: Limits, template?: TemplateNode[] | null): string {
+  if (template) {
+    const body = renderTemplate(template, templateValues(args, limits)).trimEnd();
+    return [body, ...footer(args.previousSessionId)].join("\n");
+  }
   return [
     "## Session Handoff",
     "",
-    args.summary,
+    ...buildSummarySection(args.summary, args.summary_auto),
     ...buildGoalSection(args.goal),
     ...buildBlockedSection(args.blocked),
-    ...buildTodosSection(args.todos),
-    ...buildFilesSection(args.modified_files),
-    ...buildDecisionsSection(args.decisions),
-    ...buildNextStepsSection(args.next_steps),
-    "",
-    `---`,
-    `Previous: \`${args.previousSessionId}\` · Use \`read_session\` if you need more context.`,
+    ...buildUserPrefsSection(args.user_prefs),
+    ...buildTriedFailedSection(args.tried_failed),
+    ...buildTodosSection(args.todos, args.todos_restored, limits.todos),
+    ...buildFilesSection(args, limits.files),
+    ...buildGitSection(args.git, limits.git),
+    ...buildDecisionsSection(args.decisions, limits.decisions),
+    ...buildNextStepsSection(args.next_steps, limits.next),
+    ...footer(args.previousSessionId),
   ].join("\n");
 }
+
+function renderRedacted(
+  args: HandoffArgs,
+  limits: Limits,
+  options: PromptOptions,
+): RedactionResult {
+  const prompt = renderPrompt(args, limits, options.template);
+  return options.redact ? options.redact(prompt) : { text: prompt, count: 0 };
+}
+
+/**
+ * Renders the handoff prompt, through `options.template` when one is given;
+ * the `Previous:` footer is always appended so `read_session` can follow the
+ * chain. Secrets are redacted before measuring. With a token budget, items are
+ * dropped one at a time from the lowest-priority section that still has any
+ * (git, files, decisions, todos, next steps) until the prompt fits; goal,
+ * blocker, summary, preferences and failed approaches are never trimmed, so
+ * the result can still exceed a tiny budget.
+ */
+export function renderHandoffPrompt(
+  args: HandoffArgs,
+  options: PromptOptions = {},
+): RenderedPrompt {
+  const limits = itemCounts(args);
+  let rendered = renderRedacted(args, limits, options);
+  const budget = options.tokenBudget;
+  while (budget && estimateTokens(rendered.text) > budget) {
+    const section = TRIM_ORDER.find((name) => limits[name] > 0);
+    if (!section) break;
+    limits[section]--;
+    rendered = renderRedacted(args, limits, options);
+  }
+  return { prompt: rendered.text, redactions: rendered.count };
+}
+
+export function buildHandoffPrompt(args: HandoffArgs, options: PromptOptions = {}): string {
+  return renderHandoffPrompt(args, options).prompt;
+}
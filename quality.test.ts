@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { HandoffArgs } from "./prompt.ts";
+import { lintHandoff, type QualityOptions } from "./quality.ts";
+
+const OPTIONS: QualityOptions = {
+  enabled: true,
+  strict: false,
+  minSummaryChars: 40,
+  maxSummaryChars: 200,
+};
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-quality-"));
+  fs.mkdirSync(path.join(dir, "src"));
+  fs.writeFileSync(path.join(dir, "src", "server.ts"), "");
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function handoff(overrides: Partial<HandoffArgs> = {}): HandoffArgs {
+  return {
+    previousSessionId: "ses_prev",
+    summary: "Moved the server config loading into src/server.ts and added port validation.",
+    blocked: "",
+    modified_files: [],
+    reference_files: [],
+    decisions: [],
+    tried_failed: [],
+    next_steps: ["Write tests for the port validation"],
+    user_prefs: [],
+    ...overrides,
+  };
+}
+
+function lint(overrides: Partial<HandoffArgs> = {}, filesModified: string[] = []): string[] {
+  return lintHandoff({ handoff: handoff(overrides), filesModified, directory: dir }, OPTIONS);
+}
+
+describe("lintHandoff", () => {
+  it("passes a complete handoff", () => {
+    expect(lint({ goal: "Validate server ports" }, ["src/server.ts"])).toEqual([]);
+  });
+
+  it("flags summaries that are too short or too long, but not generated ones", () => {
+    expect(lint({ summary: "Did stuff." })[0]).toMatch(/^Summary is only 10 characters/);
+    expect(lint({ summary: "x".repeat(250) })[0]).toMatch(/^Summary is 250 characters/);
+    expect(lint({ summary: "Did stuff.", summary_auto: true })).toEqual([]);
+  });
+
+  it("asks for next steps while todos are open", () => {
+    const todos = [
+      { content: "Add port validation", status: "completed" },
+      { content: "Write docs", status: "pending" },
+    ];
+    expect(lint({ todos, next_steps: [] })).toEqual([
+      "1 open todo but no next_steps. Add the concrete next actions.",
+    ]);
+  });
+
+  it("flags in-progress todos the handoff does not mention", () => {
+    const todos = [
+      { content: "Validate the port range", status: "in_progress" },
+      { content: "Migrate the database schema", status: "in_progress" },
+    ];
+    const warnings = lint({ todos });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('"Migrate the database schema"');
+    expect(warnings[0]).not.toContain("port range");
+  });
+
+  it("flags modified files that do not exist", () => {
+    expect(lint({}, ["src/server.ts", "src/sever.ts"])).toEqual([
+      "files_modified lists src/sever.ts, which does not exist in the project. Fix the path, or mention deletions in the summary instead.",
+    ]);
+  });
+
+  it("flags a goal unrelated to the summary and next steps", () => {
+    expect(lint({ goal: "Redesign the billing dashboard" })[0]).toMatch(
+      /^Goal "Redesign the billing dashboard" has nothing in common/,
+    );
+  });
+
+  it("does nothing when disabled", () => {
+    const input = { handoff: handoff({ summary: "" }), filesModified: ["nope"], directory: dir };
+    expect(lintHandoff(input, { ...OPTIONS, enabled: false })).toEqual([]);
+  });
+});
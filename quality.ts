@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HandoffArgs } from "./prompt.ts";
+import { openTodos } from "./todos.ts";
+
+export interface QualityOptions {
+  /** Run the checks at all. */
+  enabled: boolean;
+  /** Refuse to create the session while any check fails. */
+  strict: boolean;
+  minSummaryChars: number;
+  maxSummaryChars: number;
+}
+
+export interface QualityInput {
+  handoff: HandoffArgs;
+  /** The files the caller listed in `files_modified`, before session activity is merged in. */
+  filesModified: string[];
+  directory: string;
+}
+
+/** Words too common to say whether two texts are about the same thing. */
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "also",
+  "before",
+  "from",
+  "have",
+  "into",
+  "make",
+  "more",
+  "need",
+  "should",
+  "that",
+  "them",
+  "then",
+  "this",
+  "what",
+  "when",
+  "will",
+  "with",
+  "work",
+]);
+
+/**
+ * Word stems of four letters or more, cut to five so that "migrate" and
+ * "migration" count as the same word.
+ */
+function stems(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? [];
+  return new Set(words.filter((w) => !STOP_WORDS.has(w)).map((w) => w.slice(0, 5)));
+}
+
+function overlap(needle: Set<string>, haystack: Set<string>): number {
+  return [...needle].filter((stem) => haystack.has(stem)).length;
+}
+
+function narrative(handoff: HandoffArgs): Set<string> {
+  return stems([handoff.summary, handoff.blocked, ...handoff.next_steps].join(" "));
+}
+
+function checkSummary(handoff: HandoffArgs, options: QualityOptions): string | null {
+  if (handoff.summary_auto) return null;
+  const length = handoff.summary.trim().length;
+  if (length < options.minSummaryChars) {
+    return `Summary is only ${length} characters. Say what was done, what state the work is in and what is left (at least ${options.minSummaryChars}).`;
+  }
+  if (length > options.maxSummaryChars) {
+    return `Summary is ${length} characters. Cut it below ${options.maxSummaryChars}; move details into next_steps, key_decisions or tried_failed.`;
+  }
+  return null;
+}
+
+function checkNextSteps(handoff: HandoffArgs): string | null {
+  const open = openTodos(handoff.todos ?? []);
+  if (open.length === 0 || handoff.next_steps.length > 0) return null;
+  return `${open.length} open todo${open.length === 1 ? "" : "s"} but no next_steps. Add the concrete next actions.`;
+}
+
+/** A todo counts as mentioned when at least half of its words appear in the summary, blocker or next steps. */
+function checkInProgress(handoff: HandoffArgs): string | null {
+  const text = narrative(handoff);
+  const missed = (handoff.todos ?? [])
+    .filter((t) => t.status === "in_progress")
+    .filter((t) => {
+      const words = stems(t.content);
+      return words.size > 0 && overlap(words, text) * 2 < words.size;
+    });
+  if (missed.length === 0) return null;
+  const listed = missed.map((t) => `"${t.content}"`).join(", ");
+  return `In-progress todo${missed.length === 1 ? "" : "s"} ${listed} not mentioned. Say how far ${missed.length === 1 ? "it" : "they"} got in the summary or next_steps.`;
+}
+
+function checkFiles(input: QualityInput): string | null {
+  const root = path.resolve(input.directory);
+  const missing = input.filesModified.filter((f) => !fs.existsSync(path.resolve(root, f)));
+  if (missing.length === 0) return null;
+  return `files_modified lists ${missing.join(", ")}, which ${missing.length === 1 ? "does" : "do"} not exist in the project. Fix the path${missing.length === 1 ? "" : "s"}, or mention deletions in the summary instead.`;
+}
+
+/** Flags a goal that shares no words with the summary, blocker or next steps. */
+function checkGoal(handoff: HandoffArgs): string | null {
+  if (!handoff.goal || handoff.summary_auto) return null;
+  const goal = stems(handoff.goal);
+  if (goal.size < 2 || overlap(goal, narrative(handoff)) > 0) return null;
+  return `Goal "${handoff.goal}" has nothing in common with the summary or next_steps. Check that they describe the same work, or explain how the goal follows from it.`;
+}
+
+/**
+ * Checks a handoff for the gaps that send the next session back to
+ * `read_session` or to asking the user. Returns one actionable warning per
+ * failed check.
+ */
+export function lintHandoff(input: QualityInput, options: QualityOptions): string[] {
+  if (!options.enabled) return [];
+  const { handoff } = input;
+  return [
+    checkSummary(handoff, options),
+    checkNextSteps(handoff),
+    checkInProgress(handoff),
+    checkFiles(input),
+    checkGoal(handoff),
+  ].filter((warning): warning is string => warning !== null);
+}
+
+export function formatQualityWarnings(warnings: string[]): string {
+  return ["Quality warnings:", ...warnings.map((w) => `- ${w}`)].join("\n");
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import type { Message, Part } from "@opencode-ai/sdk";
+import { buildHandoffPrompt } from "./prompt.ts";
+import {
+  findPreviousSessionId,
+  formatMessage,
+  selectMessages,
+  type FormatOptions,
+  type MessageWithParts,
+} from "./read-session.ts";
+
+function message(role: "user" | "assistant", text: string): MessageWithParts {
+  return {
+    info: { role } as Message,
+    parts: [{ type: "text", text } as Part],
+  };
+}
+
+describe("findPreviousSessionId", () => {
+  it("reads the previous session from the handoff footer", () => {
+    const prompt = buildHandoffPrompt({
+      previousSessionId: "ses_parent",
+      summary: "Did things.",
+      blocked: "",
+      modified_files: [],
+      reference_files: [],
+      decisions: [],
+      tried_failed: [],
+      next_steps: [],
+      user_prefs: [],
+    });
+    const messages = [message("user", prompt), message("assistant", "On it")];
+    expect(findPreviousSessionId(messages)).toBe("ses_parent");
+  });
+
+  it("returns null when the session did not start from a handoff", () => {
+    expect(findPreviousSessionId([message("user", "hello")])).toBeNull();
+    expect(findPreviousSessionId([])).toBeNull();
+  });
+});
+
+function indices(selected: Array<{ index: number }>): number[] {
+  return selected.map((s) => s.index);
+}
+
+describe("selectMessages", () => {
+  const messages = Array.from({ length: 30 }, (_, i) =>
+    message(i % 2 === 0 ? "user" : "assistant", `msg ${i}`),
+  );
+
+  it("defaults to the last 20 messages", () => {
+    const selected = selectMessages(messages, {});
+    expect(selected).toHaveLength(20);
+    expect(selected[0]?.index).toBe(10);
+    expect(selected[19]?.index).toBe(29);
+  });
+
+  it("pages back with offset and limit", () => {
+    const selected = selectMessages(messages, { offset: 5, limit: 3 });
+    expect(indices(selected)).toEqual([22, 23, 24]);
+  });
+
+  it("filters by role before windowing", () => {
+    const selected = selectMessages(messages, { roles: ["user"], limit: 2 });
+    expect(indices(selected)).toEqual([26, 28]);
+  });
+
+  it("returns nothing when offset passes the start", () => {
+    expect(selectMessages(messages, { offset: 50 })).toEqual([]);
+  });
+});
+
+const LIMITS = { limit: 20, maxMessageChars: 100, maxToolChars: 20, maxReasoningChars: 30 };
+
+function withParts(parts: unknown[]): MessageWithParts {
+  return { info: { role: "assistant" } as Message, parts: parts as Part[] };
+}
+
+function format(parts: unknown[], options: Partial<FormatOptions> = {}): string {
+  return formatMessage(withParts(parts), 4, {
+    partTypes: ["text", "tool", "reasoning", "file", "patch"],
+    limits: LIMITS,
+    ...options,
+  });
+}
+
+describe("formatMessage", () => {
+  it("shows tool calls with their key input and capped output", () => {
+    const output = format([
+      {
+        type: "tool",
+        tool: "bash",
+        state: {
+          status: "completed",
+          input: { command: "bun   test\n--run", description: "Run tests" },
+          output: "x".repeat(50),
+          time: { start: 0, end: 1 },
+        },
+      },
+    ]);
+    expect(output).toBe(
+      `#4 [assistant]: [tool: bash \`bun test --run\` ✓]\n${"x".repeat(20)}... [+30 chars]`,
+    );
+  });
+
+  it("shows failed and running tool calls with their status", () => {
+    const output = format([
+      {
+        type: "tool",
+        tool: "read",
+        state: { status: "error", input: { filePath: "a.ts" }, error: "ENOENT" },
+      },
+      { type: "tool", tool: "task", state: { status: "running", input: {} } },
+    ]);
+    expect(output).toContain("[tool: read `a.ts` ✗ error]\nENOENT");
+    expect(output).toContain("[tool: task running]");
+  });
+
+  it("caps text and reasoning parts separately", () => {
+    const output = format([
+      { type: "reasoning", text: "r".repeat(40) },
+      { type: "text", text: "short answer" },
+      { type: "file", filename: "shot.png", mime: "image/png", url: "file:///shot.png" },
+      { type: "patch", files: ["a.ts", "b.ts"] },
+    ]);
+    expect(output.split("\n")).toEqual([
+      `#4 [assistant]: [reasoning] ${"r".repeat(30)}... [+10 chars]`,
+      "short answer",
+      "[file: shot.png (image/png)]",
+      "[patch: a.ts, b.ts]",
+    ]);
+  });
+
+  it("applies max_part_chars to every part and honours part_types", () => {
+    const parts = [
+      { type: "text", text: "t".repeat(80) },
+      { type: "reasoning", text: "hidden" },
+    ];
+    expect(format(parts, { partTypes: ["text"], maxPartChars: 60 })).toBe(
+      `#4 [assistant]: ${"t".repeat(60)}... [+20 chars]`,
+    );
+  });
+});
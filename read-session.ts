@@ -0,0 +1,274 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Message, Part, ToolPart } from "@opencode-ai/sdk";
+import { findParentRecord, readHandoffRecords, type HandoffRecord } from "./ledger.ts";
+import { formatRedactionCount, type Redactor } from "./redact.ts";
+
+type PluginClient = PluginInput["client"];
+
+const PREVIOUS_SESSION_PATTERN = /Previous: `([^`]+)`/;
+
+export type MessageRole = "user" | "assistant";
+export type PartType = "text" | "reasoning" | "tool" | "file" | "patch";
+
+export interface MessageWithParts {
+  info: Message;
+  parts: Part[];
+}
+
+export interface ReadSessionArgs {
+  session_id?: string | undefined;
+  hops?: number | undefined;
+  offset?: number | undefined;
+  limit?: number | undefined;
+  roles?: MessageRole[] | undefined;
+  part_types?: PartType[] | undefined;
+  max_part_chars?: number | undefined;
+}
+
+export interface ReadLimits {
+  /** Messages returned when the caller gives no `limit`. */
+  limit: number;
+  /** Characters kept per text part before it is cut. */
+  maxMessageChars: number;
+  /** Characters kept of each tool call's output or error. */
+  maxToolChars: number;
+  /** Characters kept per reasoning part. */
+  maxReasoningChars: number;
+}
+
+const DEFAULT_LIMITS: ReadLimits = {
+  limit: 20,
+  maxMessageChars: 2000,
+  maxToolChars: 400,
+  maxReasoningChars: 1000,
+};
+
+/** Tool inputs worth showing, most telling first; the first one set is used. */
+const KEY_INPUTS = ["command", "filePath", "pattern", "path", "url", "query", "description"];
+const MAX_INPUT_CHARS = 120;
+
+export interface ReadContext {
+  directory: string;
+  client: PluginClient;
+  limits?: ReadLimits;
+  redact?: Redactor | null;
+}
+
+export async function fetchMessages(
+  client: PluginClient,
+  sessionId: string,
+  directory: string,
+): Promise<MessageWithParts[] | null> {
+  const result = await client.session.messages({
+    path: { id: sessionId },
+    query: { directory },
+  });
+  if (!result?.data || !Array.isArray(result.data)) return null;
+  return result.data as MessageWithParts[];
+}
+
+/**
+ * Finds the session a handoff came from by reading the footer that
+ * `buildHandoffPrompt` writes into the first user message.
+ */
+export function findPreviousSessionId(messages: MessageWithParts[]): string | null {
+  const firstUser = messages.find((m) => m.info.role === "user");
+  if (!firstUser) return null;
+  for (const part of firstUser.parts) {
+    if (part.type !== "text") continue;
+    const match = part.text.match(PREVIOUS_SESSION_PATTERN);
+    if (match?.[1]) return match[1];
+  }
+  return null;
+}
+
+async function findParentSession(
+  ctx: ReadContext,
+  records: HandoffRecord[],
+  sessionId: string,
+): Promise<string | null> {
+  const recorded = findParentRecord(records, sessionId);
+  if (recorded) return recorded.previousSessionId;
+  const messages = await fetchMessages(ctx.client, sessionId, ctx.directory);
+  return messages ? findPreviousSessionId(messages) : null;
+}
+
+/**
+ * The sessions the current one was handed off from, nearest first, up to
+ * `max` of them.
+ */
+export async function findAncestorSessions(
+  ctx: ReadContext,
+  currentSessionId: string,
+  max: number,
+): Promise<string[]> {
+  const records = readHandoffRecords();
+  const ancestors: string[] = [];
+  let sessionId = await findParentSession(ctx, records, currentSessionId);
+  while (sessionId && ancestors.length < max && !ancestors.includes(sessionId)) {
+    ancestors.push(sessionId);
+    sessionId = await findParentSession(ctx, records, sessionId);
+  }
+  return ancestors;
+}
+
+/**
+ * Walks `hops` handoffs back from the current session, using the ledger and
+ * falling back to the handoff footer for sessions it has no record of.
+ */
+async function resolveTargetSession(
+  ctx: ReadContext,
+  args: ReadSessionArgs,
+  currentSessionId: string,
+): Promise<string | null> {
+  if (args.session_id) return args.session_id;
+  const records = readHandoffRecords();
+  let sessionId: string | null = currentSessionId;
+  for (let hop = 0; hop < (args.hops ?? 1) && sessionId; hop++) {
+    sessionId = await findParentSession(ctx, records, sessionId);
+  }
+  return sessionId === currentSessionId ? null : sessionId;
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}... [+${text.length - maxChars} chars]`;
+}
+
+function keyInput(input: Record<string, unknown>): string {
+  const value = KEY_INPUTS.map((key) => input[key]).find((v) => typeof v === "string" && v);
+  return typeof value === "string" ? truncate(value.replace(/\s+/g, " "), MAX_INPUT_CHARS) : "";
+}
+
+/** `[tool: bash `bun test` ✓]` and the capped output, or the error for failed calls. */
+function formatToolPart(part: ToolPart, maxChars: number): string {
+  const { state } = part;
+  const input = keyInput(state.input);
+  const header = (status: string) =>
+    `[tool: ${part.tool}${input ? ` \`${input}\`` : ""} ${status}]`;
+  if (state.status === "error") return `${header("✗ error")}\n${truncate(state.error, maxChars)}`;
+  if (state.status !== "completed") return header(state.status);
+  const output = state.time.compacted ? "[output compacted]" : state.output.trim();
+  return output ? `${header("✓")}\n${truncate(output, maxChars)}` : header("✓");
+}
+
+export interface FormatOptions {
+  partTypes: PartType[];
+  limits: ReadLimits;
+  /** Overrides every per-part cap in `limits`. */
+  maxPartChars?: number | undefined;
+}
+
+function partCap(
+  options: FormatOptions,
+  key: "maxMessageChars" | "maxToolChars" | "maxReasoningChars",
+): number {
+  return options.maxPartChars ?? options.limits[key];
+}
+
+export function formatPart(part: Part, options: FormatOptions): string {
+  switch (part.type) {
+    case "text":
+      return truncate(part.text || "", partCap(options, "maxMessageChars"));
+    case "reasoning":
+      return (
+        part.text && `[reasoning] ${truncate(part.text, partCap(options, "maxReasoningChars"))}`
+      );
+    case "tool":
+      return formatToolPart(part, partCap(options, "maxToolChars"));
+    case "file":
+      return `[file: ${part.filename || part.url} (${part.mime})]`;
+    case "patch":
+      return `[patch: ${part.files.join(", ")}]`;
+    default:
+      return `[${part.type}]`;
+  }
+}
+
+/** `#3 [assistant]: …`, with each included part rendered and capped on its own. */
+export function formatMessage(
+  msg: MessageWithParts,
+  index: number,
+  options: FormatOptions,
+): string {
+  const { partTypes } = options;
+  const role = msg.info.role || "unknown";
+  const parts = msg.parts.filter((p) => (partTypes as string[]).includes(p.type));
+  const content =
+    parts
+      .map((p) => formatPart(p, options))
+      .filter((c) => c.length > 0)
+      .join("\n") || `[no ${partTypes.join("/")} content]`;
+  return `#${index} [${role}]: ${content}`;
+}
+
+/**
+ * Selects a window counted back from the newest message: `offset` skips the
+ * most recent messages, `limit` caps how many are returned.
+ */
+export function selectMessages(
+  messages: MessageWithParts[],
+  args: Pick<ReadSessionArgs, "offset" | "limit" | "roles">,
+  defaultLimit = DEFAULT_LIMITS.limit,
+): Array<{ index: number; message: MessageWithParts }> {
+  const indexed = messages
+    .map((message, index) => ({ index, message }))
+    .filter(({ message }) => !args.roles || args.roles.includes(message.info.role));
+  const offset = args.offset ?? 0;
+  const limit = args.limit ?? defaultLimit;
+  const end = Math.max(indexed.length - offset, 0);
+  return indexed.slice(Math.max(end - limit, 0), end);
+}
+
+function formatWindow(
+  sessionId: string,
+  total: number,
+  selected: Array<{ index: number; message: MessageWithParts }>,
+  options: FormatOptions,
+): string {
+  const formatted = selected.map(({ index, message }) => formatMessage(message, index, options));
+  const first = selected[0]?.index ?? 0;
+  const last = selected[selected.length - 1]?.index ?? 0;
+  const header = `Session ${sessionId} · messages #${first}-#${last} of ${total}`;
+  return `${header}:\n\n${formatted.join("\n\n---\n\n")}`;
+}
+
+export function redactOutput(output: string, redact: Redactor | null | undefined): string {
+  if (!redact) return output;
+  const { text, count } = redact(output);
+  return count ? `${text}\n\n(${formatRedactionCount(count)})` : text;
+}
+
+export async function executeReadSession(
+  ctx: ReadContext,
+  args: ReadSessionArgs,
+  currentSessionId: string,
+): Promise<string> {
+  try {
+    const sessionId = await resolveTargetSession(ctx, args, currentSessionId);
+    if (!sessionId) {
+      return "No previous session recorded for this session. Pass session_id explicitly.";
+    }
+
+    const messages = await fetchMessages(ctx.client, sessionId, ctx.directory);
+    if (!messages || messages.length === 0) {
+      return `No messages found in session ${sessionId}`;
+    }
+
+    const limits = ctx.limits ?? DEFAULT_LIMITS;
+    const selected = selectMessages(messages, args, limits.limit);
+    if (selected.length === 0) {
+      return `No messages in session ${sessionId} match the given filters`;
+    }
+
+    const output = formatWindow(sessionId, messages.length, selected, {
+      partTypes: args.part_types ?? ["text"],
+      limits,
+      maxPartChars: args.max_part_chars,
+    });
+    return redactOutput(output, ctx.redact);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return `Failed to read session: ${errorMsg}`;
+  }
+}
@@ -0,0 +1,129 @@
+export interface RedactionPattern {
+  name: string;
+  pattern: string;
+}
+
+export interface RedactionOptions {
+  enabled: boolean;
+  /** Extra regular expressions (without delimiters) to redact after the built-in detectors. */
+  patterns: RedactionPattern[];
+}
+
+export interface RedactionResult {
+  text: string;
+  count: number;
+}
+
+export type Redactor = (text: string) => RedactionResult;
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Extra check on each match; matches it rejects are left alone. */
+  accept?: (match: string) => boolean;
+}
+
+const MIN_ENTROPY_BITS = 4.2;
+
+/** Shannon entropy in bits per character. */
+export function entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function looksRandom(token: string): boolean {
+  return (
+    /\d/.test(token) &&
+    /[a-z]/.test(token) &&
+    /[A-Z]/.test(token) &&
+    entropy(token) >= MIN_ENTROPY_BITS
+  );
+}
+
+// Order matters: whole blocks and specific token formats go before the
+// generic high-entropy pass so they are reported under their own name.
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "github-token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { name: "jwt", pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g },
+  {
+    name: "connection-password",
+    pattern: /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+(?=@)/gi,
+  },
+  { name: "email", pattern: /\b[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // No `/` in the class: a file path or URL would otherwise read as one random token.
+  { name: "high-entropy", pattern: /[A-Za-z0-9+=_-]{32,}/g, accept: looksRandom },
+];
+
+function compilePattern(pattern: RedactionPattern): Detector {
+  return { name: pattern.name, pattern: new RegExp(pattern.pattern, "g") };
+}
+
+/** Returns an error message when `pattern` is not a valid regular expression. */
+export function checkPattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, "g");
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function redactText(text: string, detectors: Detector[]): RedactionResult {
+  let count = 0;
+  let result = text;
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, (match) => {
+      if (!match || (detector.accept && !detector.accept(match))) return match;
+      count++;
+      return `[REDACTED:${detector.name}]`;
+    });
+  }
+  return { text: result, count };
+}
+
+/**
+ * Builds the redaction pass from config: the built-in detectors (AWS keys,
+ * GitHub tokens, JWTs, private keys, URL passwords, emails, high-entropy
+ * strings) followed by the user's patterns. Returns null when disabled.
+ */
+export function createRedactor(options: RedactionOptions): Redactor | null {
+  if (!options.enabled) return null;
+  const detectors = [...BUILTIN_DETECTORS, ...options.patterns.map(compilePattern)];
+  return (text) => redactText(text, detectors);
+}
+
+export function formatRedactionCount(count: number): string {
+  return `${count} secret${count === 1 ? "" : "s"} redacted`;
+}
+
+/** Redacts every string inside `value`, e.g. a JSON document, keeping its shape. */
+export function redactValue<T>(value: T, redact: Redactor): { value: T; count: number } {
+  let count = 0;
+  const walk = (node: unknown): unknown => {
+    if (typeof node === "string") {
+      const result = redact(node);
+      count += result.count;
+      return result.text;
+    }
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === "object") {
+      return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, walk(v)]));
+    }
+    return node;
+  };
+  return { value: walk(value) as T, count };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+  describeChanges,
+  parseModelRef,
+  resolveRetarget,
+  type RetargetParams,
+} from "./retarget.ts";
+
+const client = {
+  app: {
+    agents: async () => ({
+      data: [
+        { name: "build", mode: "primary" },
+        { name: "plan", mode: "primary" },
+        { name: "explore", mode: "subagent" },
+      ],
+    }),
+  },
+  config: {
+    providers: async () => ({
+      data: { providers: [{ id: "anthropic", models: { opus: {}, sonnet: {} } }] },
+    }),
+  },
+} as unknown as PluginInput["client"];
+
+const offline = {
+  app: { agents: async () => Promise.reject(new Error("offline")) },
+  config: { providers: async () => Promise.reject(new Error("offline")) },
+} as unknown as PluginInput["client"];
+
+const previous = { agent: "plan", modelConfig: { providerID: "anthropic", modelID: "opus" } };
+const noMap = { agent: {}, model: {} };
+
+function resolve(params: Partial<RetargetParams>, on = client) {
+  return resolveRetarget(on, "/repo", { previous, request: {}, map: noMap, ...params });
+}
+
+describe("parseModelRef", () => {
+  it("splits at the first slash", () => {
+    expect(parseModelRef("openrouter/meta/llama")).toEqual({
+      providerID: "openrouter",
+      modelID: "meta/llama",
+    });
+    expect(parseModelRef("sonnet")).toBeNull();
+    expect(parseModelRef("anthropic/")).toBeNull();
+  });
+});
+
+describe("resolveRetarget", () => {
+  it("keeps the previous target when nothing is asked for", async () => {
+    expect(await resolve({})).toEqual({});
+  });
+
+  it("switches to an explicit agent and model", async () => {
+    expect(await resolve({ request: { agent: "build", model: "anthropic/sonnet" } })).toEqual({
+      agent: "build",
+      modelConfig: { providerID: "anthropic", modelID: "sonnet" },
+    });
+  });
+
+  it("applies the config mapping, with explicit arguments taking precedence", async () => {
+    const map = { agent: { plan: "build" }, model: { "anthropic/opus": "anthropic/sonnet" } };
+    expect(await resolve({ map })).toEqual({
+      agent: "build",
+      modelConfig: { providerID: "anthropic", modelID: "sonnet" },
+    });
+    expect(await resolve({ map, request: { agent: "plan" } })).toMatchObject({ agent: "plan" });
+  });
+
+  it("rejects agents, providers and models the server does not report", async () => {
+    expect(await resolve({ request: { agent: "explore" } })).toBe(
+      'Error: unknown agent "explore". Available agents: build, plan',
+    );
+    expect(await resolve({ request: { model: "openai/gpt" } })).toContain(
+      'unknown provider "openai". Available providers: anthropic',
+    );
+    expect(
+      await resolve({ map: { agent: {}, model: { "anthropic/opus": "anthropic/haiku" } } }),
+    ).toBe(
+      'Error: unknown model "anthropic/haiku" (from targetMap.model). Available anthropic models: opus, sonnet',
+    );
+  });
+
+  it("uses the target unchecked when the server cannot be asked", async () => {
+    expect(await resolve({ request: { agent: "anything" } }, offline)).toEqual({
+      agent: "anything",
+    });
+  });
+});
+
+describe("describeChanges", () => {
+  it("lists agent and model switches", () => {
+    expect(
+      describeChanges(previous, {
+        agent: "build",
+        modelConfig: { providerID: "anthropic", modelID: "sonnet" },
+      }),
+    ).toEqual(["agent plan → build", "model anthropic/opus → anthropic/sonnet"]);
+    expect(describeChanges(previous, { agent: "plan" })).toEqual([
+      "model anthropic/opus → default",
+    ]);
+    expect(describeChanges(previous, previous)).toEqual([]);
+  });
+});
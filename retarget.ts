@@ -0,0 +1,155 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+
+type PluginClient = PluginInput["client"];
+
+export interface ModelRef {
+  providerID: string;
+  modelID: string;
+}
+
+/**
+ * Agent and model replacements keyed by the previous session's, e.g.
+ * `{ agent: { plan: "build" }, model: { "anthropic/opus": "anthropic/sonnet" } }`.
+ */
+export interface TargetMap {
+  agent: Record<string, string>;
+  model: Record<string, string>;
+}
+
+export interface RetargetRequest {
+  agent?: string | undefined;
+  /** `provider/model`. */
+  model?: string | undefined;
+}
+
+/** The agent and model a handoff starts on; either may be absent for the server default. */
+export interface Target {
+  agent?: string;
+  modelConfig?: ModelRef;
+}
+
+interface Available {
+  agents: string[];
+  models: Map<string, string[]>;
+}
+
+const MAX_LISTED = 10;
+
+/** Splits `provider/model` at the first slash, since model IDs can contain slashes. */
+export function parseModelRef(value: string): ModelRef | null {
+  const slash = value.indexOf("/");
+  if (slash <= 0 || slash === value.length - 1) return null;
+  return { providerID: value.slice(0, slash), modelID: value.slice(slash + 1) };
+}
+
+export function formatModelRef(model: ModelRef): string {
+  return `${model.providerID}/${model.modelID}`;
+}
+
+/** Primary agents and models per provider, or null when the server could not be asked. */
+async function fetchAvailable(client: PluginClient, directory: string): Promise<Available | null> {
+  try {
+    const [agents, providers] = await Promise.all([
+      client.app.agents({ query: { directory } }),
+      client.config.providers({ query: { directory } }),
+    ]);
+    if (!agents?.data || !providers?.data) return null;
+    return {
+      agents: agents.data.filter((a) => a.mode !== "subagent").map((a) => a.name),
+      models: new Map(providers.data.providers.map((p) => [p.id, Object.keys(p.models)])),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function listed(names: string[]): string {
+  const more = names.length - MAX_LISTED;
+  return names.slice(0, MAX_LISTED).join(", ") + (more > 0 ? `, +${more} more` : "");
+}
+
+function checkAgent(agent: string, available: Available, source: string): string | null {
+  if (available.agents.includes(agent)) return null;
+  return `Error: unknown agent "${agent}"${source}. Available agents: ${listed(available.agents)}`;
+}
+
+function checkModel(value: string, available: Available, source: string): string | null {
+  const model = parseModelRef(value);
+  if (!model) return `Error: model "${value}"${source} is not in provider/model form`;
+  const models = available.models.get(model.providerID);
+  if (!models) {
+    return `Error: unknown provider "${model.providerID}"${source}. Available providers: ${listed([...available.models.keys()])}`;
+  }
+  if (models.includes(model.modelID)) return null;
+  return `Error: unknown model "${value}"${source}. Available ${model.providerID} models: ${listed(models)}`;
+}
+
+interface PickedTargets {
+  agent: string | undefined;
+  agentSource: string;
+  model: string | undefined;
+  modelSource: string;
+}
+
+export interface RetargetParams {
+  /** The previous session's agent and model. */
+  previous: Target;
+  request: RetargetRequest;
+  map: TargetMap;
+}
+
+/** Explicit arguments win over the config mapping, which is keyed by the previous agent or model. */
+function pickTargets({ previous, request, map }: RetargetParams): PickedTargets {
+  const mappedAgent = previous.agent ? map.agent[previous.agent] : undefined;
+  const mappedModel = previous.modelConfig
+    ? map.model[formatModelRef(previous.modelConfig)]
+    : undefined;
+  return {
+    agent: request.agent ?? mappedAgent,
+    agentSource: request.agent ? "" : " (from targetMap.agent)",
+    model: request.model ?? mappedModel,
+    modelSource: request.model ? "" : " (from targetMap.model)",
+  };
+}
+
+function checkTargets(picked: PickedTargets, available: Available): string | null {
+  return (
+    (picked.agent && checkAgent(picked.agent, available, picked.agentSource)) ||
+    (picked.model && checkModel(picked.model, available, picked.modelSource)) ||
+    null
+  );
+}
+
+/**
+ * Works out which agent and model to switch to, if any, and checks them
+ * against the agents and providers the server reports. Returns an error
+ * message for unknown ones; when the server cannot be asked they are used
+ * unchecked.
+ */
+export async function resolveRetarget(
+  client: PluginClient,
+  directory: string,
+  params: RetargetParams,
+): Promise<Target | string> {
+  const picked = pickTargets(params);
+  if (!picked.agent && !picked.model) return {};
+  const available = await fetchAvailable(client, directory);
+  const error = available && checkTargets(picked, available);
+  if (error) return error;
+  const modelConfig = picked.model ? parseModelRef(picked.model) : null;
+  return {
+    ...(picked.agent && { agent: picked.agent }),
+    ...(modelConfig && { modelConfig }),
+  };
+}
+
+/** What differs between two targets, e.g. `["agent plan → build"]`. */
+export function describeChanges(before: Target, after: Target): string[] {
+  const model = (t: Target) => (t.modelConfig ? formatModelRef(t.modelConfig) : "default");
+  const changes: string[] = [];
+  if ((before.agent || "default") !== (after.agent || "default")) {
+    changes.push(`agent ${before.agent || "default"} → ${after.agent || "default"}`);
+  }
+  if (model(before) !== model(after)) changes.push(`model ${model(before)} → ${model(after)}`);
+  return changes;
+}
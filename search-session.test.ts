@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Message, Part } from "@opencode-ai/sdk";
+import type { MessageWithParts } from "./read-session.ts";
+import {
+  compileQuery,
+  executeSearchSession,
+  searchMessages,
+  type SearchOptions,
+} from "./search-session.ts";
+
+function message(role: "user" | "assistant", parts: unknown[]): MessageWithParts {
+  return { info: { role } as Message, parts: parts as Part[] };
+}
+
+function text(value: string) {
+  return { type: "text", text: value };
+}
+
+const messages = [
+  message("user", [text("Why does the server fail to start?")]),
+  message("assistant", [
+    text("Let me run it."),
+    {
+      type: "tool",
+      tool: "bash",
+      state: {
+        status: "completed",
+        input: { command: "bun start" },
+        output: "Error: listen EADDRINUSE: address already in use :::3000",
+        time: { start: 0, end: 1 },
+      },
+    },
+  ]),
+  message("assistant", [text("Port 3000 is taken (EADDRINUSE). We decided to use 3001.")]),
+];
+
+function options(query: string, overrides: Partial<SearchOptions> = {}): SearchOptions {
+  const pattern = compileQuery({ query });
+  if (typeof pattern === "string") throw new Error(pattern);
+  return { pattern, partTypes: ["text"], context: 10, ...overrides };
+}
+
+function fakeClient(data: MessageWithParts[]) {
+  return {
+    session: { messages: async () => ({ data }) },
+  } as unknown as PluginInput["client"];
+}
+
+describe("compileQuery", () => {
+  it("escapes plain queries and ignores case", () => {
+    const pattern = compileQuery({ query: "a.b (c)" });
+    expect(pattern).toBeInstanceOf(RegExp);
+    expect((pattern as RegExp).test("A.B (C)")).toBe(true);
+    expect(compileQuery({ query: "a.b", case_sensitive: true })).toEqual(/a\.b/g);
+  });
+
+  it("reports invalid regular expressions", () => {
+    expect(compileQuery({ query: "(unclosed", regex: true })).toMatch(/^Error: invalid regex/);
+  });
+});
+
+describe("searchMessages", () => {
+  it("returns snippets with context and message indices", () => {
+    const matches = searchMessages("ses_a", messages, options("eaddrinuse"));
+    expect(matches).toEqual([
+      {
+        sessionId: "ses_a",
+        index: 2,
+        role: "assistant",
+        partType: "text",
+        snippet: "…is taken (**EADDRINUSE**). We deci…",
+      },
+    ]);
+  });
+
+  it("searches tool output only when tool parts are included", () => {
+    const matches = searchMessages(
+      "ses_a",
+      messages,
+      options("EADDRINUSE", { partTypes: ["tool"] }),
+    );
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ index: 1, partType: "tool" });
+  });
+
+  it("filters by role", () => {
+    const matches = searchMessages("ses_a", messages, options("server", { roles: ["assistant"] }));
+    expect(matches).toEqual([]);
+  });
+});
+
+describe("executeSearchSession", () => {
+  it("groups matches by session with a read_session hint", async () => {
+    const result = await executeSearchSession(
+      { directory: "/tmp", client: fakeClient(messages) },
+      { query: "30\\d\\d", regex: true, session_id: "ses_a" },
+      "ses_current",
+    );
+    expect(result).toContain('1 match for "30\\d\\d" (searched 1 session, 3 messages):');
+    expect(result).toContain("Session ses_a (3 messages):\n- #2 [assistant/text]");
+    expect(result).toContain("offset = messages - index - 1");
+  });
+
+  it("says so when nothing matches", async () => {
+    const result = await executeSearchSession(
+      { directory: "/tmp", client: fakeClient(messages) },
+      { query: "segfault", session_id: "ses_a" },
+      "ses_current",
+    );
+    expect(result).toBe('No matches for "segfault" (searched 1 session, 3 messages).');
+  });
+});
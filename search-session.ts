@@ -0,0 +1,196 @@
+import {
+  fetchMessages,
+  findAncestorSessions,
+  formatPart,
+  redactOutput,
+  type MessageRole,
+  type MessageWithParts,
+  type PartType,
+  type ReadContext,
+} from "./read-session.ts";
+
+export interface SearchSessionArgs {
+  query: string;
+  regex?: boolean | undefined;
+  case_sensitive?: boolean | undefined;
+  session_id?: string | undefined;
+  chain?: boolean | undefined;
+  roles?: MessageRole[] | undefined;
+  part_types?: PartType[] | undefined;
+  context?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface SearchMatch {
+  sessionId: string;
+  index: number;
+  role: string;
+  partType: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  pattern: RegExp;
+  roles?: MessageRole[] | undefined;
+  partTypes: PartType[];
+  /** Characters shown either side of a match. */
+  context: number;
+}
+
+const DEFAULT_CONTEXT = 80;
+const DEFAULT_RESULTS = 20;
+/** Sessions searched at most when following the whole handoff chain. */
+const MAX_CHAIN_SESSIONS = 10;
+
+/** Searched parts are shown in full, so matches in long tool output are found. */
+const UNCAPPED = {
+  limit: Infinity,
+  maxMessageChars: Infinity,
+  maxToolChars: Infinity,
+  maxReasoningChars: Infinity,
+};
+
+/** Compiles the query, escaping it unless `regex` is set. Returns an error message for bad patterns. */
+export function compileQuery(args: SearchSessionArgs): RegExp | string {
+  const source = args.regex ? args.query : args.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  try {
+    return new RegExp(source, args.case_sensitive ? "g" : "gi");
+  } catch (error) {
+    return `Error: invalid regex: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+function snippet(text: string, start: number, end: number, context: number): string {
+  const from = Math.max(start - context, 0);
+  const to = Math.min(end + context, text.length);
+  return [
+    from > 0 ? "…" : "",
+    collapse(text.slice(from, start)),
+    `**${collapse(text.slice(start, end))}**`,
+    collapse(text.slice(end, to)),
+    to < text.length ? "…" : "",
+  ].join("");
+}
+
+/** Snippets for each match in `text`, skipping matches already shown in the previous snippet. */
+function matchText(text: string, options: SearchOptions): string[] {
+  const snippets: string[] = [];
+  let shownUntil = -1;
+  for (const match of text.matchAll(options.pattern)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (start < shownUntil || end === start) continue;
+    snippets.push(snippet(text, start, end, options.context));
+    shownUntil = end + options.context;
+  }
+  return snippets;
+}
+
+function matchMessage(
+  sessionId: string,
+  message: MessageWithParts,
+  index: number,
+  options: SearchOptions,
+): SearchMatch[] {
+  const role = message.info.role || "unknown";
+  const format = { partTypes: options.partTypes, limits: UNCAPPED };
+  return message.parts
+    .filter((part) => (options.partTypes as string[]).includes(part.type))
+    .flatMap((part) =>
+      matchText(formatPart(part, format), options).map((text) => ({
+        sessionId,
+        index,
+        role,
+        partType: part.type,
+        snippet: text,
+      })),
+    );
+}
+
+/** Every match in one session's messages, oldest first, with the message index read_session uses. */
+export function searchMessages(
+  sessionId: string,
+  messages: MessageWithParts[],
+  options: SearchOptions,
+): SearchMatch[] {
+  return messages.flatMap((message, index) =>
+    !options.roles || options.roles.includes(message.info.role)
+      ? matchMessage(sessionId, message, index, options)
+      : [],
+  );
+}
+
+async function resolveSearchSessions(
+  ctx: ReadContext,
+  args: SearchSessionArgs,
+  currentSessionId: string,
+): Promise<string[]> {
+  if (args.session_id) return [args.session_id];
+  const max = args.chain ? MAX_CHAIN_SESSIONS : 1;
+  return findAncestorSessions(ctx, currentSessionId, max);
+}
+
+interface SearchedSession {
+  sessionId: string;
+  total: number;
+  matches: SearchMatch[];
+}
+
+function formatResults(args: SearchSessionArgs, searched: SearchedSession[]): string {
+  const all = searched.flatMap((s) => s.matches);
+  const limit = args.limit ?? DEFAULT_RESULTS;
+  const messages = searched.reduce((sum, s) => sum + s.total, 0);
+  const scope = `${searched.length} session${searched.length === 1 ? "" : "s"}, ${messages} messages`;
+  if (all.length === 0) return `No matches for "${args.query}" (searched ${scope}).`;
+  const shown = new Set(all.slice(0, limit));
+  const sections = searched
+    .filter((s) => s.matches.some((m) => shown.has(m)))
+    .map((s) => {
+      const lines = s.matches
+        .filter((m) => shown.has(m))
+        .map((m) => `- #${m.index} [${m.role}/${m.partType}] ${m.snippet}`);
+      return [`Session ${s.sessionId} (${s.total} messages):`, ...lines].join("\n");
+    });
+  const more = all.length - shown.size;
+  return [
+    `${all.length} match${all.length === 1 ? "" : "es"} for "${args.query}" (searched ${scope}):`,
+    ...sections,
+    ...(more > 0 ? [`+${more} more; narrow the query or raise \`limit\`.`] : []),
+    "To read a match in full, call read_session with its session_id and offset = messages - index - 1.",
+  ].join("\n\n");
+}
+
+export async function executeSearchSession(
+  ctx: ReadContext,
+  args: SearchSessionArgs,
+  currentSessionId: string,
+): Promise<string> {
+  const pattern = compileQuery(args);
+  if (typeof pattern === "string") return pattern;
+  try {
+    const sessionIds = await resolveSearchSessions(ctx, args, currentSessionId);
+    if (sessionIds.length === 0) {
+      return "No previous session recorded for this session. Pass session_id explicitly.";
+    }
+    const options: SearchOptions = {
+      pattern,
+      roles: args.roles,
+      partTypes: args.part_types ?? ["text"],
+      context: args.context ?? DEFAULT_CONTEXT,
+    };
+    const searched: SearchedSession[] = [];
+    for (const sessionId of sessionIds) {
+      const messages = (await fetchMessages(ctx.client, sessionId, ctx.directory)) ?? [];
+      const matches = searchMessages(sessionId, messages, options);
+      searched.push({ sessionId, total: messages.length, matches });
+    }
+    return redactOutput(formatResults(args, searched), ctx.redact);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return `Failed to search sessions: ${errorMsg}`;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { Message, Part } from "@opencode-ai/sdk";
+import type { MessageWithParts } from "./read-session.ts";
+import { buildFallbackSummary, mergeFiles, scanFileActivity } from "./session-scan.ts";
+
+function text(value: string): Part {
+  return { type: "text", text: value } as Part;
+}
+
+function toolCall(name: string, input: Record<string, unknown>): Part {
+  return { type: "tool", tool: name, state: { status: "completed", input } } as Part;
+}
+
+function message(role: "user" | "assistant", parts: Part[]): MessageWithParts {
+  return { info: { role } as Message, parts };
+}
+
+describe("buildFallbackSummary", () => {
+  it("summarizes the last request, reply, tools and edited files", () => {
+    const summary = buildFallbackSummary([
+      message("user", [text("Fix the login redirect")]),
+      message("assistant", [
+        toolCall("read", { filePath: "src/auth.ts" }),
+        toolCall("edit", { filePath: "src/auth.ts" }),
+        toolCall("edit", { filePath: "src/auth.ts" }),
+        toolCall("write", { filePath: "src/auth.test.ts" }),
+        text("Redirect fixed, tests added."),
+      ]),
+      message("user", [text("handoff ship it")]),
+    ]);
+    expect(summary).toContain("Last request: Fix the login redirect");
+    expect(summary).toContain("Last reply: Redirect fixed, tests added.");
+    expect(summary).toContain("Tool calls: read ×1, edit ×2, write ×1");
+    expect(summary).toContain("Files edited: src/auth.ts, src/auth.test.ts");
+  });
+
+  it("truncates long messages", () => {
+    const summary = buildFallbackSummary([message("user", [text("x".repeat(1000))])]);
+    expect(summary).toContain(`${"x".repeat(300)}...`);
+    expect(summary).not.toContain("x".repeat(301));
+  });
+
+  it("handles an empty session", () => {
+    expect(buildFallbackSummary([])).toBe("No activity recorded in the previous session.");
+  });
+});
+
+describe("scanFileActivity", () => {
+  const messages = [
+    message("assistant", [
+      toolCall("read", { filePath: "/repo/src/a.ts" }),
+      toolCall("read", { filePath: "/repo/src/b.ts" }),
+      toolCall("read", { filePath: "/repo/src/b.ts" }),
+      toolCall("grep", { pattern: "foo", path: "/repo/src" }),
+      toolCall("list", { path: "/repo" }),
+      toolCall("edit", { filePath: "/repo/src/a.ts" }),
+      toolCall("edit", { filePath: "/repo/src/a.ts" }),
+      toolCall("write", { filePath: "/elsewhere/notes.md" }),
+      { type: "patch", files: ["/repo/src/a.ts", "/repo/src/c.ts"] } as Part,
+    ]),
+  ];
+
+  it("separates modified and referenced files with counts, relative to the directory", () => {
+    expect(scanFileActivity(messages, "/repo")).toEqual({
+      modified: [
+        { path: "src/a.ts", count: 2 },
+        { path: "/elsewhere/notes.md", count: 1 },
+        { path: "src/c.ts", count: 1 },
+      ],
+      referenced: [{ path: "src/b.ts", count: 2 }],
+    });
+  });
+});
+
+describe("mergeFiles", () => {
+  it("keeps the model's files first and drops duplicates", () => {
+    const detected = [
+      { path: "src/a.ts", count: 3 },
+      { path: "src/b.ts", count: 1 },
+    ];
+    expect(mergeFiles(["src/b.ts"], detected)).toEqual(["src/b.ts", "src/a.ts"]);
+    expect(mergeFiles(undefined, detected)).toEqual(["src/a.ts", "src/b.ts"]);
+  });
+});
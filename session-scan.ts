@@ -0,0 +1,158 @@
+import * as path from "path";
+import type { Part, ToolPart } from "@opencode-ai/sdk";
+import type { MessageWithParts } from "./read-session.ts";
+
+const MODIFY_TOOLS = new Set(["edit", "write", "multiedit", "patch"]);
+const SNIPPET_CHARS = 300;
+const HANDOFF_REQUEST_PATTERN = /^\s*(session_)?handoff\b/i;
+
+function messageText(msg: MessageWithParts): string {
+  return msg.parts
+    .filter((p): p is Part & { type: "text"; text: string } => p.type === "text")
+    .filter((p) => !p.synthetic)
+    .map((p) => p.text)
+    .join("\n")
+    .trim();
+}
+
+function snippet(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > SNIPPET_CHARS ? `${oneLine.slice(0, SNIPPET_CHARS)}...` : oneLine;
+}
+
+function lastText(messages: MessageWithParts[], accept: (msg: MessageWithParts) => boolean) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (!msg || !accept(msg)) continue;
+    const text = messageText(msg);
+    if (text) return text;
+  }
+  return "";
+}
+
+export function toolParts(messages: MessageWithParts[]): ToolPart[] {
+  return messages.flatMap((m) => m.parts.filter((p): p is ToolPart => p.type === "tool"));
+}
+
+export function toolInputPath(part: ToolPart): string | null {
+  const input = part.state.input;
+  const value = input.filePath ?? input.path;
+  return typeof value === "string" && value ? value : null;
+}
+
+function countTools(parts: ToolPart[]): string {
+  const counts = new Map<string, number>();
+  for (const part of parts) counts.set(part.tool, (counts.get(part.tool) ?? 0) + 1);
+  return [...counts.entries()].map(([name, count]) => `${name} ×${count}`).join(", ");
+}
+
+function editedFiles(parts: ToolPart[]): string[] {
+  const files = parts
+    .filter((p) => MODIFY_TOOLS.has(p.tool) && p.state.status === "completed")
+    .map(toolInputPath)
+    .filter((f): f is string => f !== null);
+  return [...new Set(files)];
+}
+
+/**
+ * Builds a summary from the session itself for when the model did not supply
+ * one: the last request, the last reply, the tools used and the files edited.
+ */
+export function buildFallbackSummary(messages: MessageWithParts[]): string {
+  const request = lastText(
+    messages,
+    (m) => m.info.role === "user" && !HANDOFF_REQUEST_PATTERN.test(messageText(m)),
+  );
+  const reply = lastText(messages, (m) => m.info.role === "assistant");
+  const tools = toolParts(messages);
+  const files = editedFiles(tools);
+
+  const lines: string[] = [];
+  if (request) lines.push(`Last request: ${snippet(request)}`);
+  if (reply) lines.push(`Last reply: ${snippet(reply)}`);
+  if (tools.length > 0) lines.push(`Tool calls: ${countTools(tools)}`);
+  if (files.length > 0) lines.push(`Files edited: ${files.join(", ")}`);
+  return lines.join("\n") || "No activity recorded in the previous session.";
+}
+
+export interface FileCount {
+  path: string;
+  count: number;
+}
+
+export interface FileActivity {
+  modified: FileCount[];
+  referenced: FileCount[];
+}
+
+function relativeTo(directory: string, file: string): string {
+  if (!path.isAbsolute(file)) return file;
+  const relative = path.relative(directory, file);
+  return relative && !relative.startsWith("..") ? relative : file;
+}
+
+function bump(counts: Map<string, number>, file: string): void {
+  counts.set(file, (counts.get(file) ?? 0) + 1);
+}
+
+function byCount(counts: Map<string, number>): FileCount[] {
+  return [...counts.entries()]
+    .map(([file, count]) => ({ path: file, count }))
+    .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+}
+
+interface Tally {
+  modified: Map<string, number>;
+  referenced: Map<string, number>;
+  /** Files from snapshot patch parts, used only for files no tool call accounts for. */
+  patched: Set<string>;
+}
+
+function tallyPart(part: Part, tally: Tally): void {
+  if (part.type === "patch") {
+    for (const file of part.files) tally.patched.add(file);
+    return;
+  }
+  if (part.type !== "tool" || part.state.status === "error") return;
+  const file = toolInputPath(part);
+  if (!file) return;
+  if (MODIFY_TOOLS.has(part.tool)) bump(tally.modified, file);
+  // grep, glob and list take a directory to search, not a file, so only reads count.
+  else if (part.tool === "read") bump(tally.referenced, file);
+}
+
+function normalize(counts: Map<string, number>, directory: string): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const [file, count] of counts) {
+    const key = relativeTo(directory, file);
+    out.set(key, (out.get(key) ?? 0) + count);
+  }
+  return out;
+}
+
+/**
+ * Counts how often each file was changed (edit/write/patch) or read in the
+ * session. Files that were changed are left out of the referenced list.
+ */
+export function scanFileActivity(messages: MessageWithParts[], directory: string): FileActivity {
+  const tally: Tally = { modified: new Map(), referenced: new Map(), patched: new Set() };
+  for (const msg of messages) {
+    for (const part of msg.parts) tallyPart(part, tally);
+  }
+  const modified = normalize(tally.modified, directory);
+  for (const file of tally.patched) {
+    const key = relativeTo(directory, file);
+    if (!modified.has(key)) modified.set(key, 1);
+  }
+  const referenced = normalize(tally.referenced, directory);
+  for (const file of modified.keys()) referenced.delete(file);
+  return { modified: byCount(modified), referenced: byCount(referenced) };
+}
+
+/**
+ * Puts the files the model named first, in its order, then the detected ones
+ * by activity.
+ */
+export function mergeFiles(given: string[] | undefined, detected: FileCount[]): string[] {
+  return [...new Set([...(given ?? []), ...detected.map((f) => f.path)])];
+}
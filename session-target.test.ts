@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Session } from "@opencode-ai/sdk";
+import { findSessions, openSessionTarget, resolveSessionTarget } from "./session-target.ts";
+
+function session(id: string, title: string, updated: number): Session {
+  return {
+    id,
+    projectID: "proj",
+    directory: "/repo",
+    title,
+    version: "1",
+    time: { created: 0, updated },
+  };
+}
+
+const sessions = [
+  session("ses_main", "Main", 3),
+  session("ses_old", "Main (old)", 1),
+  session("ses_auth", "Auth refactor", 2),
+  session("ses_cur", "Current work", 4),
+];
+
+function fakeClient() {
+  const create = vi.fn(async () => ({ data: { id: "ses_new" } }));
+  const client = {
+    session: { list: async () => ({ data: sessions }), create },
+  } as unknown as PluginInput["client"];
+  return { client, create };
+}
+
+function matchIds(query: string): string[] {
+  return findSessions(sessions, query, "ses_cur").map((s) => s.id);
+}
+
+function resolveFromCurrent(request: { into?: string; fork?: boolean }) {
+  return resolveSessionTarget(fakeClient().client, "/repo", "ses_cur", request);
+}
+
+describe("findSessions", () => {
+  it("prefers an ID, then an exact title, then title substrings", () => {
+    expect(matchIds("ses_auth")).toEqual(["ses_auth"]);
+    expect(matchIds("main")).toEqual(["ses_main"]);
+    expect(matchIds("MAIN (")).toEqual(["ses_old"]);
+  });
+
+  it("never matches the current session", () => {
+    expect(matchIds("current")).toEqual([]);
+  });
+});
+
+describe("resolveSessionTarget", () => {
+  it("creates a plain new session by default", async () => {
+    const { client } = fakeClient();
+    expect(await resolveSessionTarget(client, "/repo", "ses_cur", {})).toEqual({ kind: "new" });
+  });
+
+  it("forks a child of the current session", async () => {
+    const { client } = fakeClient();
+    expect(await resolveSessionTarget(client, "/repo", "ses_cur", { fork: true })).toEqual({
+      kind: "new",
+      parentID: "ses_cur",
+    });
+  });
+
+  it("resolves an existing session by title", async () => {
+    const { client } = fakeClient();
+    expect(await resolveSessionTarget(client, "/repo", "ses_cur", { into: "auth" })).toEqual({
+      kind: "existing",
+      id: "ses_auth",
+      title: "Auth refactor",
+    });
+  });
+
+  it("lists the candidates when the title is ambiguous", async () => {
+    const { client } = fakeClient();
+    const result = await resolveSessionTarget(client, "/repo", "ses_cur", { into: "a" });
+    expect(result).toContain('"a" matches 3 sessions');
+    expect(result).toContain('- ses_main · "Main"');
+  });
+
+  it("rejects unknown sessions, the current session and conflicting options", async () => {
+    expect(await resolveFromCurrent({ into: "billing" })).toBe(
+      'Error: no session matches "billing".',
+    );
+    expect(await resolveFromCurrent({ into: "ses_cur" })).toContain(
+      "cannot hand off into the current",
+    );
+    expect(await resolveFromCurrent({ into: "Main", fork: true })).toContain("not both");
+  });
+});
+
+describe("openSessionTarget", () => {
+  it("creates new sessions with their parent and reuses existing ones", async () => {
+    const { client, create } = fakeClient();
+    const target = { kind: "new", parentID: "ses_cur" } as const;
+    expect(await openSessionTarget(client, "/repo", "Handoff", target)).toBe("ses_new");
+    expect(create).toHaveBeenCalledWith({
+      query: { directory: "/repo" },
+      body: { title: "Handoff", parentID: "ses_cur" },
+    });
+    const existing = { kind: "existing", id: "ses_main", title: "Main" } as const;
+    expect(await openSessionTarget(client, "/repo", "Main", existing)).toBe("ses_main");
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+});
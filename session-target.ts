@@ -0,0 +1,103 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Session } from "@opencode-ai/sdk";
+
+type PluginClient = PluginInput["client"];
+
+/** Where a handoff goes: a new session (optionally a child of another) or an existing one. */
+export type SessionTarget =
+  | { kind: "new"; parentID?: string }
+  | { kind: "existing"; id: string; title: string };
+
+export interface TargetRequest {
+  /** Session ID or title text of an existing session to hand off into. */
+  into?: string | undefined;
+  /** Create the new session as a child of the current one. */
+  fork?: boolean | undefined;
+}
+
+const MAX_LISTED_MATCHES = 5;
+
+/**
+ * Sessions matching `query`, other than `excludeId`: the one with that ID,
+ * else those whose title equals it, else those whose title contains it
+ * (case-insensitive). Most recently updated first.
+ */
+export function findSessions(sessions: Session[], query: string, excludeId: string): Session[] {
+  const candidates = sessions
+    .filter((s) => s.id !== excludeId)
+    .sort((a, b) => b.time.updated - a.time.updated);
+  const byId = candidates.filter((s) => s.id === query);
+  if (byId.length > 0) return byId;
+  const needle = query.toLowerCase();
+  const exact = candidates.filter((s) => s.title.toLowerCase() === needle);
+  if (exact.length > 0) return exact;
+  return candidates.filter((s) => s.title.toLowerCase().includes(needle));
+}
+
+async function listSessions(client: PluginClient, directory: string): Promise<Session[]> {
+  const result = await client.session.list({ query: { directory } });
+  return Array.isArray(result?.data) ? result.data : [];
+}
+
+function formatMatches(query: string, matches: Session[]): string {
+  const listed = matches.slice(0, MAX_LISTED_MATCHES).map((s) => `- ${s.id} · "${s.title}"`);
+  const more = matches.length - listed.length;
+  return [
+    `Error: "${query}" matches ${matches.length} sessions. Pass one of their IDs as \`into\`:`,
+    ...listed,
+    ...(more > 0 ? [`- +${more} more`] : []),
+  ].join("\n");
+}
+
+async function findExistingTarget(
+  client: PluginClient,
+  directory: string,
+  currentSessionId: string,
+  into: string,
+): Promise<SessionTarget | string> {
+  let matches: Session[];
+  try {
+    matches = findSessions(await listSessions(client, directory), into, currentSessionId);
+  } catch (error) {
+    return `Error: could not list sessions: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  const [match] = matches;
+  if (!match) return `Error: no session matches "${into}".`;
+  if (matches.length > 1) return formatMatches(into, matches);
+  return { kind: "existing", id: match.id, title: match.title };
+}
+
+/** Works out where the handoff goes. Returns an error message when `into` matches no single session. */
+export async function resolveSessionTarget(
+  client: PluginClient,
+  directory: string,
+  currentSessionId: string,
+  request: TargetRequest,
+): Promise<SessionTarget | string> {
+  const { into, fork } = request;
+  if (into && fork) return "Error: pass either `into` or `fork`, not both.";
+  if (fork) return currentSessionId ? { kind: "new", parentID: currentSessionId } : { kind: "new" };
+  if (!into) return { kind: "new" };
+  if (into === currentSessionId) return "Error: cannot hand off into the current session.";
+  return findExistingTarget(client, directory, currentSessionId, into);
+}
+
+/** Creates the session for a new target, or returns the existing one's ID. */
+export async function openSessionTarget(
+  client: PluginClient,
+  directory: string,
+  title: string,
+  target: SessionTarget,
+): Promise<string | null> {
+  if (target.kind === "existing") return target.id;
+  const newSession = await client.session.create({
+    query: { directory },
+    body: { title, ...(target.parentID && { parentID: target.parentID }) },
+  });
+  return newSession?.data?.id ?? null;
+}
+
+export function describeSessionTarget(target: SessionTarget): string {
+  if (target.kind === "existing") return `existing session ${target.id}`;
+  return target.parentID ? `new session, child of ${target.parentID}` : "new session";
+}
@@ -0,0 +1,118 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { AssistantMessage, Message } from "@opencode-ai/sdk";
+import { contextTokens } from "./context-watch.ts";
+import { captureGitSnapshot, type GitSnapshot } from "./git.ts";
+import { inheritedPreferences, readHandoffRecords } from "./ledger.ts";
+import { fetchMessages, type MessageWithParts } from "./read-session.ts";
+import { scanFileActivity, type FileActivity } from "./session-scan.ts";
+import type { Todo } from "./todos.ts";
+
+type PluginClient = PluginInput["client"];
+
+export interface ModelConfig {
+  providerID: string;
+  modelID: string;
+}
+
+export interface SessionContext {
+  title: string;
+  todos: Todo[];
+  messages: MessageWithParts[];
+  files: FileActivity;
+  git?: GitSnapshot;
+  modelConfig?: ModelConfig;
+  agent?: string;
+  /** Preferences carried over from earlier hops of the handoff chain. */
+  userPrefs?: string[];
+  /** Context tokens used by the last assistant message. */
+  contextTokens?: number;
+}
+
+async function fetchSessionTitle(
+  client: PluginClient,
+  sessionId: string,
+  directory: string,
+): Promise<string> {
+  try {
+    const result = await client.session.get({
+      path: { id: sessionId },
+      query: { directory },
+    });
+    return result?.data?.title || "Unknown";
+  } catch {
+    return "Unknown";
+  }
+}
+
+function extractModelFromMessage(msg: Message | undefined): {
+  modelConfig?: ModelConfig;
+  agent?: string;
+} {
+  if (!msg) return {};
+  if (msg.role !== "assistant") return {};
+  const out: { modelConfig?: ModelConfig; agent?: string } = {};
+  if (msg.providerID && msg.modelID) {
+    out.modelConfig = { providerID: msg.providerID, modelID: msg.modelID };
+  }
+  if (msg.mode) out.agent = msg.mode;
+  return out;
+}
+
+async function fetchSessionMessages(
+  client: PluginClient,
+  sessionId: string,
+  directory: string,
+): Promise<MessageWithParts[]> {
+  try {
+    return (await fetchMessages(client, sessionId, directory)) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function fetchTodos(
+  client: PluginClient,
+  sessionId: string,
+  directory: string,
+): Promise<Todo[]> {
+  try {
+    const result = await client.session.todo({
+      path: { id: sessionId },
+      query: { directory },
+    });
+    return Array.isArray(result?.data) ? (result.data as Todo[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Everything a handoff needs from the previous session: title, messages,
+ * todos, file activity, git state, model and preferences from the chain.
+ */
+export async function gatherSessionContext(
+  client: PluginClient,
+  directory: string,
+  sessionId: string,
+): Promise<SessionContext> {
+  const [title, messages, todos, git] = await Promise.all([
+    fetchSessionTitle(client, sessionId, directory),
+    fetchSessionMessages(client, sessionId, directory),
+    fetchTodos(client, sessionId, directory),
+    captureGitSnapshot(directory),
+  ]);
+  const assistantMessages = messages.filter((m) => m.info.role === "assistant");
+  const lastAssistant = assistantMessages[assistantMessages.length - 1]?.info;
+  const modelResult = extractModelFromMessage(lastAssistant);
+  const files = scanFileActivity(messages, directory);
+  const ctx: SessionContext = { title, todos, messages, files };
+  if (modelResult.modelConfig) ctx.modelConfig = modelResult.modelConfig;
+  if (modelResult.agent) ctx.agent = modelResult.agent;
+  if (git) ctx.git = git;
+  if (lastAssistant?.role === "assistant" && lastAssistant.tokens) {
+    ctx.contextTokens = contextTokens(lastAssistant as AssistantMessage);
+  }
+  const userPrefs = inheritedPreferences(readHandoffRecords(), sessionId);
+  if (userPrefs.length > 0) ctx.userPrefs = userPrefs;
+  return ctx;
+}
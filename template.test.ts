@@ -0,0 +1,93 @@
+import { describe, it, expect, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  loadTemplate,
+  parseTemplate,
+  renderTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  TEMPLATE_PRESETS,
+  type TemplateValues,
+} from "./template.ts";
+
+const empty = Object.fromEntries(TEMPLATE_PLACEHOLDERS.map((p) => [p, ""])) as TemplateValues;
+
+function render(source: string, values: Partial<TemplateValues> = {}): string {
+  const parsed = parseTemplate(source);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return renderTemplate(parsed.nodes, { ...empty, ...values });
+}
+
+describe("parseTemplate", () => {
+  it("substitutes placeholders", () => {
+    expect(render("Goal: {{goal}} ({{ summary }})", { goal: "ship", summary: "done" })).toBe(
+      "Goal: ship (done)",
+    );
+  });
+
+  it("renders blocks only when the value is set, and inverted blocks when it is not", () => {
+    const source = "{{#blocked}}Blocked: {{blocked}}{{/blocked}}{{^blocked}}Unblocked{{/blocked}}";
+    expect(render(source, { blocked: "CI" })).toBe("Blocked: CI");
+    expect(render(source)).toBe("Unblocked");
+  });
+
+  it("drops lines that hold only a block tag", () => {
+    const source = "A\n{{#goal}}\nGoal: {{goal}}\n{{/goal}}\nB\n";
+    expect(render(source, { goal: "x" })).toBe("A\nGoal: x\nB\n");
+    expect(render(source)).toBe("A\nB\n");
+  });
+
+  it("reports unknown placeholders, unbalanced blocks and malformed tags with line numbers", () => {
+    const result = parseTemplate("{{ticket}}\n{{#goal}}\n{{/blocked}}\n{{summary");
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain('line 1: unknown placeholder "ticket"');
+    expect(result.error).toContain("line 3: {{/blocked}} closes {{#goal}}");
+    expect(result.error).toContain("line 4: malformed tag");
+    expect(result.error).toContain("line 2: {{#goal}} is never closed");
+  });
+
+  it("parses every preset", () => {
+    for (const source of Object.values(TEMPLATE_PRESETS)) {
+      expect(parseTemplate(source).ok).toBe(true);
+    }
+  });
+});
+
+describe("loadTemplate", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-template-"));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("uses the built-in prompt when nothing is configured", () => {
+    expect(loadTemplate(dir, {})).toEqual({ ok: true, nodes: null, origin: "default" });
+  });
+
+  it("resolves presets by name and rejects unknown settings", () => {
+    const preset = loadTemplate(dir, { OPENCODE_HANDOFF_TEMPLATE: "checklist" });
+    expect(preset.ok && preset.origin).toBe('preset "checklist"');
+    const missing = loadTemplate(dir, { OPENCODE_HANDOFF_TEMPLATE: "fancy" });
+    expect(missing.ok).toBe(false);
+  });
+
+  it("does not take inherited object keys for presets", () => {
+    for (const name of ["constructor", "toString"]) {
+      const result = loadTemplate(dir, { OPENCODE_HANDOFF_TEMPLATE: name });
+      expect(result).toEqual({ ok: false, error: expect.stringContaining("neither a preset") });
+    }
+  });
+
+  it("reports a template path that cannot be read instead of throwing", () => {
+    const result = loadTemplate(dir, { OPENCODE_HANDOFF_TEMPLATE: "." });
+    expect(result).toEqual({ ok: false, error: expect.stringContaining("EISDIR") });
+  });
+
+  it("reads the project template and prefixes parse errors with its path", () => {
+    const file = path.join(dir, ".opencode", "handoff-template.md");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, "Ticket: {{ticket}}\n");
+    const result = loadTemplate(dir, {});
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain(`${file}: Invalid handoff template`);
+  });
+});
@@ -0,0 +1,339 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getConfigDir } from "./auto-update.ts";
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "previous_session_id",
+  "summary",
+  "summary_auto",
+  "goal",
+  "blocked",
+  "todos",
+  "todos_progress",
+  "todos_follow_up",
+  "next_steps",
+  "next_steps_checklist",
+  "decisions",
+  "tried_failed",
+  "user_prefs",
+  "modified_files",
+  "reference_files",
+  "git",
+] as const;
+
+export type Placeholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+export type TemplateValues = Record<Placeholder, string>;
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: Placeholder }
+  | { type: "block"; name: Placeholder; inverted: boolean; children: TemplateNode[] };
+
+export type TemplateResult = { ok: true; nodes: TemplateNode[] } | { ok: false; error: string };
+
+interface OpenBlock {
+  name: Placeholder;
+  inverted: boolean;
+  line: number;
+  children: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z_]+)\s*\}\}/g;
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+function isPlaceholder(name: string): name is Placeholder {
+  return (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+/**
+ * A section tag alone on its line takes the whole line with it, so block
+ * markers don't leave blank lines behind. Returns [start, end] of the span to
+ * drop, or null when the tag shares its line with other text.
+ */
+function standaloneSpan(source: string, start: number, end: number): [number, number] | null {
+  const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+  const newline = source.indexOf("\n", end);
+  const lineEnd = newline === -1 ? source.length : newline + 1;
+  const before = source.slice(lineStart, start);
+  const after = source.slice(end, newline === -1 ? source.length : newline);
+  if (before.trim() || after.trim()) return null;
+  return [lineStart, lineEnd];
+}
+
+function checkText(text: string, source: string, offset: number): string | null {
+  const stray = text.indexOf("{{");
+  if (stray === -1) return null;
+  const line = lineAt(source, offset + stray);
+  return `line ${line}: malformed tag "${text.slice(stray, stray + 20).split("\n")[0]}"`;
+}
+
+interface ParseState {
+  source: string;
+  root: TemplateNode[];
+  stack: OpenBlock[];
+  errors: string[];
+  cursor: number;
+}
+
+function currentNodes(state: ParseState): TemplateNode[] {
+  return state.stack[state.stack.length - 1]?.children ?? state.root;
+}
+
+function pushText(state: ParseState, end: number): void {
+  const text = state.source.slice(state.cursor, end);
+  const error = checkText(text, state.source, state.cursor);
+  if (error) state.errors.push(error);
+  if (text) currentNodes(state).push({ type: "text", value: text });
+}
+
+function closeBlock(state: ParseState, name: Placeholder, line: number): void {
+  const open = state.stack.pop();
+  if (!open || open.name !== name) {
+    state.errors.push(
+      `line ${line}: {{/${name}}} closes ${open ? `{{#${open.name}}}` : "nothing"}`,
+    );
+    if (open) state.stack.push(open);
+    return;
+  }
+  currentNodes(state).push({
+    type: "block",
+    name,
+    inverted: open.inverted,
+    children: open.children,
+  });
+}
+
+function handleTag(state: ParseState, sigil: string, name: string, line: number): void {
+  if (!isPlaceholder(name)) {
+    state.errors.push(`line ${line}: unknown placeholder "${name}"`);
+  } else if (sigil === "#" || sigil === "^") {
+    state.stack.push({ name, inverted: sigil === "^", line, children: [] });
+  } else if (sigil === "/") {
+    closeBlock(state, name, line);
+  } else {
+    currentNodes(state).push({ type: "var", name });
+  }
+}
+
+/** Parses a handoff template, reporting unknown placeholders and unbalanced blocks. */
+export function parseTemplate(source: string): TemplateResult {
+  const state: ParseState = { source, root: [], stack: [], errors: [], cursor: 0 };
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil = "", name = ""] = match;
+    const start = match.index ?? 0;
+    const span = sigil ? standaloneSpan(source, start, start + tag.length) : null;
+    pushText(state, span ? Math.max(span[0], state.cursor) : start);
+    state.cursor = span ? span[1] : start + tag.length;
+    handleTag(state, sigil, name, lineAt(source, start));
+  }
+  pushText(state, source.length);
+  for (const open of state.stack) {
+    state.errors.push(`line ${open.line}: {{#${open.name}}} is never closed`);
+  }
+
+  if (state.errors.length > 0) {
+    return { ok: false, error: `Invalid handoff template:\n- ${state.errors.join("\n- ")}` };
+  }
+  return { ok: true, nodes: state.root };
+}
+
+export function renderTemplate(nodes: TemplateNode[], values: TemplateValues): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.value;
+      if (node.type === "var") return values[node.name];
+      const present = values[node.name].trim() !== "";
+      return present !== node.inverted ? renderTemplate(node.children, values) : "";
+    })
+    .join("");
+}
+
+const MINIMAL = `## Session Handoff
+
+{{summary}}
+{{#goal}}
+
+**Goal:** {{goal}}
+{{/goal}}
+{{#blocked}}
+
+**Blocked:** {{blocked}}
+{{/blocked}}
+{{#todos}}
+
+**Todos ({{todos_progress}}):**
+{{todos}}
+{{#todos_follow_up}}
+{{todos_follow_up}}
+{{/todos_follow_up}}
+{{/todos}}
+{{#next_steps}}
+
+**Next:**
+{{next_steps}}
+{{/next_steps}}
+`;
+
+const DETAILED = `## Session Handoff
+
+{{#summary_auto}}
+_Auto-generated summary (none was provided), built from the previous session:_
+{{/summary_auto}}
+{{summary}}
+{{#goal}}
+
+### Goal
+{{goal}}
+{{/goal}}
+{{#blocked}}
+
+### Blocked
+{{blocked}}
+{{/blocked}}
+{{#todos}}
+
+### Todos ({{todos_progress}})
+{{todos}}
+{{#todos_follow_up}}
+{{todos_follow_up}}
+{{/todos_follow_up}}
+{{/todos}}
+{{#next_steps}}
+
+### Next steps
+{{next_steps}}
+{{/next_steps}}
+{{#decisions}}
+
+### Decisions
+{{decisions}}
+{{/decisions}}
+{{#tried_failed}}
+
+### Tried and failed
+{{tried_failed}}
+{{/tried_failed}}
+{{#user_prefs}}
+
+### User preferences
+{{user_prefs}}
+{{/user_prefs}}
+{{#modified_files}}
+
+### Files modified
+{{modified_files}}
+{{/modified_files}}
+{{#reference_files}}
+
+### Files referenced
+{{reference_files}}
+{{/reference_files}}
+{{#git}}
+
+### Git
+{{git}}
+{{/git}}
+`;
+
+const CHECKLIST = `## Session Handoff
+
+{{summary}}
+{{#goal}}
+
+**Goal:** {{goal}}
+{{/goal}}
+{{#blocked}}
+
+**Blocked:** {{blocked}}
+{{/blocked}}
+
+### Checklist
+{{#todos}}
+{{todos}}
+{{#todos_follow_up}}
+{{todos_follow_up}}
+{{/todos_follow_up}}
+{{/todos}}
+{{#next_steps_checklist}}
+{{next_steps_checklist}}
+{{/next_steps_checklist}}
+- [ ] Check the definition of done below before finishing
+{{#modified_files}}
+
+**Files:** {{modified_files}}
+{{/modified_files}}
+
+### Definition of done
+- [ ] Tests and type-check pass
+- [ ] Todo list is up to date
+`;
+
+export const TEMPLATE_PRESETS: Record<string, string> = {
+  minimal: MINIMAL,
+  detailed: DETAILED,
+  checklist: CHECKLIST,
+};
+
+export type TemplateSource =
+  | { ok: true; nodes: TemplateNode[] | null; origin: string }
+  | { ok: false; error: string };
+
+function templateFiles(directory: string): string[] {
+  return [
+    path.join(directory, ".opencode", "handoff-template.md"),
+    path.join(getConfigDir(), "handoff-template.md"),
+  ];
+}
+
+function parseFrom(source: string, origin: string): TemplateSource {
+  const parsed = parseTemplate(source);
+  if (!parsed.ok) return { ok: false, error: `${origin}: ${parsed.error}` };
+  return { ok: true, nodes: parsed.nodes, origin };
+}
+
+function parseFile(file: string): TemplateSource {
+  try {
+    return parseFrom(fs.readFileSync(file, "utf-8"), file);
+  } catch (error) {
+    return {
+      ok: false,
+      error: `${file}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Resolves the template to use: `OPENCODE_HANDOFF_TEMPLATE` or the `template`
+ * config option (a preset name or a file path), then
+ * `.opencode/handoff-template.md` in the project, then
+ * `handoff-template.md` in the opencode config dir. `nodes` is null when none
+ * is set and the built-in prompt should be used.
+ */
+export function loadTemplate(
+  directory: string,
+  env: Record<string, string | undefined> = process.env,
+  configured?: string,
+): TemplateSource {
+  const setting = env.OPENCODE_HANDOFF_TEMPLATE || configured;
+  if (setting && setting !== "default") {
+    // Own keys only, so names like "constructor" are not taken for presets.
+    if (Object.hasOwn(TEMPLATE_PRESETS, setting)) {
+      return parseFrom(TEMPLATE_PRESETS[setting] ?? "", `preset "${setting}"`);
+    }
+    const file = path.resolve(directory, setting);
+    if (!fs.existsSync(file)) {
+      const presets = Object.keys(TEMPLATE_PRESETS).join(", ");
+      return {
+        ok: false,
+        error: `template: "${setting}" is neither a preset (${presets}) nor a file`,
+      };
+    }
+    return parseFile(file);
+  }
+  const file = templateFiles(directory).find((f) => fs.existsSync(f));
+  if (!file) return { ok: true, nodes: null, origin: "default" };
+  return parseFile(file);
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { openTodos, restoreTodos } from "./todos.ts";
+
+const todos = [
+  { content: "Task 1", status: "completed", priority: "high", id: "1" },
+  { content: "Task 2", status: "in_progress", priority: "high", id: "2" },
+  { content: "Task 3", status: "cancelled", priority: "low", id: "3" },
+  { content: "Task 4", status: "pending", priority: "low", id: "4" },
+  { content: "Task 5", status: "pending" },
+];
+
+describe("openTodos", () => {
+  it("keeps pending and in-progress todos in order", () => {
+    const [first, second, third, fourth] = openTodos(todos);
+    expect([first?.content, second?.content, third?.content]).toEqual([
+      "Task 2",
+      "Task 4",
+      "Task 5",
+    ]);
+    expect(fourth).toBeUndefined();
+  });
+});
+
+describe("restoreTodos", () => {
+  it("writes open todos into the new session's todo file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-todos-"));
+    expect(restoreTodos("ses_new", todos, dir)).toBe(true);
+    const written = JSON.parse(fs.readFileSync(path.join(dir, "ses_new.json"), "utf-8"));
+    expect(written).toEqual([
+      { content: "Task 2", status: "in_progress", priority: "high", id: "2" },
+      { content: "Task 4", status: "pending", priority: "low", id: "4" },
+      { content: "Task 5", status: "pending", priority: "medium", id: "3" },
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("gives todos without an ID one no other todo uses", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "handoff-todos-"));
+    const colliding = [
+      { content: "No ID", status: "pending" },
+      { content: "Has ID", status: "pending", id: "1" },
+      { content: "Duplicate ID", status: "pending", id: "1" },
+    ];
+    expect(restoreTodos("ses_new", colliding, dir)).toBe(true);
+    const written = JSON.parse(fs.readFileSync(path.join(dir, "ses_new.json"), "utf-8"));
+    expect(written).toMatchObject([{ id: "2" }, { id: "1" }, { id: "3" }]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("falls back when the storage directory does not exist", () => {
+    const missing = path.join(os.tmpdir(), "handoff-todos-missing", "todo");
+    expect(restoreTodos("ses_new", todos, missing)).toBe(false);
+  });
+
+  it("does nothing when every todo is done", () => {
+    const done = [{ content: "Task 1", status: "completed" }];
+    expect(restoreTodos("ses_new", done, os.tmpdir())).toBe(false);
+  });
+});
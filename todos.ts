@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface Todo {
+  content: string;
+  status: string;
+  priority?: string;
+  id?: string;
+}
+
+const OPEN_STATUSES = new Set(["pending", "in_progress"]);
+
+/** Returns opencode's todo storage directory (`<data>/opencode/storage/todo`). */
+export function getTodoStorageDir(): string {
+  const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share");
+  return path.join(dataHome, "opencode", "storage", "todo");
+}
+
+/** Pending and in-progress todos, in their original order. */
+export function openTodos(todos: Todo[]): Todo[] {
+  return todos.filter((t) => OPEN_STATUSES.has(t.status));
+}
+
+/** Whether `restoreTodos` would have anything to write and somewhere to write it. */
+export function canRestoreTodos(todos: Todo[], storageDir = getTodoStorageDir()): boolean {
+  return openTodos(todos).length > 0 && fs.existsSync(storageDir);
+}
+
+/**
+ * Todo IDs for the restored list: a todo keeps its own ID unless an earlier
+ * one already has it, and the rest get their position, or the next number no
+ * other todo uses.
+ */
+function uniqueIds(todos: Todo[]): string[] {
+  const taken = new Set(todos.map((t) => t.id).filter((id): id is string => !!id));
+  const assigned = new Set<string>();
+  return todos.map((t, i) => {
+    let id = t.id && !assigned.has(t.id) ? t.id : undefined;
+    for (let n = i + 1; !id; n++) {
+      if (!taken.has(String(n)) && !assigned.has(String(n))) id = String(n);
+    }
+    assigned.add(id);
+    return id;
+  });
+}
+
+/**
+ * Writes the open todos into the new session's todo list. opencode has no API
+ * for this, so it goes through the storage file opencode reads todos from.
+ * Returns false when that storage is not where we expect it, so the caller
+ * can fall back to listing the todos in the prompt.
+ *
+ * NOTE: this writes opencode's private storage (`storage/todo/<session>.json`),
+ * which is not a stable interface and can change in any release. Keep the
+ * prompt fallback working, and do not extend this to other storage without
+ * sign-off from a maintainer.
+ */
+export function restoreTodos(
+  sessionId: string,
+  todos: Todo[],
+  storageDir = getTodoStorageDir(),
+): boolean {
+  if (!canRestoreTodos(todos, storageDir)) return false;
+  const open = openTodos(todos);
+  const ids = uniqueIds(open);
+  try {
+    const restored = open.map((t, i) => ({
+      content: t.content,
+      status: t.status,
+      priority: t.priority || "medium",
+      id: ids[i],
+    }));
+    fs.writeFileSync(path.join(storageDir, `${sessionId}.json`), JSON.stringify(restored, null, 2));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -5,6 +5,12 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["**/*.test.ts"],
+    server: {
+      deps: {
+        // Published with extensionless ESM imports that only Bun resolves.
+        inline: ["@opencode-ai/plugin"],
+      },
+    },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],